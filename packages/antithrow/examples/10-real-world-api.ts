@@ -6,15 +6,16 @@
  * It shows how Result types create a clean, type-safe API layer.
  */
 import type { Result } from "antithrow";
-import { chain, err, errAsync, ok, okAsync, type ResultAsync } from "antithrow";
+import { chain, err, errAsync, ok, okAsync, type ResultAsync, TaggedError } from "antithrow";
 
-// Define a discriminated union for all possible API errors.
-// This gives exhaustive checking when handling errors
-type ApiError =
-	| { type: "validation"; message: string }
-	| { type: "not_found"; resource: string }
-	| { type: "unauthorized" }
-	| { type: "network"; cause: Error };
+// Define a class per error with TaggedError. Each gets a literal `_tag`,
+// so a union of them can be matched exhaustively with matchTag()
+class ValidationError extends TaggedError("ValidationError")<{ message: string }> {}
+class NotFoundError extends TaggedError("NotFoundError")<{ resource: string }> {}
+class UnauthorizedError extends TaggedError("UnauthorizedError") {}
+class NetworkError extends TaggedError("NetworkError")<{ cause: Error }> {}
+
+type ApiError = ValidationError | NotFoundError | UnauthorizedError | NetworkError;
 
 interface User {
 	id: string;
@@ -34,14 +35,14 @@ interface CreateUserInput {
 const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 function validateEmail(email: string): Result<string, ApiError> {
 	if (!emailRegex.test(email)) {
-		return err({ type: "validation", message: "Invalid email format" });
+		return err(new ValidationError({ message: "Invalid email format" }));
 	}
 	return ok(email);
 }
 
 function validatePassword(password: string): Result<string, ApiError> {
 	if (password.length < 8) {
-		return err({ type: "validation", message: "Password must be at least 8 characters" });
+		return err(new ValidationError({ message: "Password must be at least 8 characters" }));
 	}
 	return ok(password);
 }
@@ -49,7 +50,7 @@ function validatePassword(password: string): Result<string, ApiError> {
 function validateName(name: string): Result<string, ApiError> {
 	const trimmed = name.trim();
 	if (trimmed.length === 0) {
-		return err({ type: "validation", message: "Name cannot be empty" });
+		return err(new ValidationError({ message: "Name cannot be empty" }));
 	}
 	return ok(trimmed);
 }
@@ -92,10 +93,9 @@ function createUser(input: CreateUserInput): ResultAsync<User, ApiError> {
 		// Then async checks
 		const emailExists = yield* checkEmailExists(validatedInput.email);
 		if (emailExists) {
-			return yield* errAsync<User, ApiError>({
-				type: "validation",
-				message: "Email already exists",
-			});
+			return yield* errAsync<User, ApiError>(
+				new ValidationError({ message: "Email already exists" }),
+			);
 		}
 
 		// Finally, persist
@@ -104,19 +104,19 @@ function createUser(input: CreateUserInput): ResultAsync<User, ApiError> {
 }
 
 // --- Response formatting ---
-// Convert typed errors to HTTP responses with exhaustive matching
-
-function formatApiError(error: ApiError): { status: number; body: object } {
-	switch (error.type) {
-		case "validation":
-			return { status: 400, body: { error: error.message } };
-		case "not_found":
-			return { status: 404, body: { error: `${error.resource} not found` } };
-		case "unauthorized":
-			return { status: 401, body: { error: "Unauthorized" } };
-		case "network":
-			return { status: 503, body: { error: "Service unavailable" } };
-	}
+// Convert results to HTTP responses. matchTag() needs a handler for every
+// error in ApiError, so adding a new error is a compile error until handled
+
+type ApiResponse = { status: number; body: object };
+
+function toResponse(result: Result<User, ApiError>): ApiResponse {
+	return result.matchTag<ApiResponse>({
+		ok: (user) => ({ status: 201, body: user }),
+		ValidationError: (error) => ({ status: 400, body: { error: error.message } }),
+		NotFoundError: (error) => ({ status: 404, body: { error: `${error.resource} not found` } }),
+		UnauthorizedError: () => ({ status: 401, body: { error: "Unauthorized" } }),
+		NetworkError: () => ({ status: 503, body: { error: "Service unavailable" } }),
+	});
 }
 
 // --- Demo ---
@@ -128,10 +128,7 @@ async function main() {
 		name: "New User",
 		password: "securepassword123",
 	});
-	result1.match({
-		ok: (user) => console.log("Created user:", user),
-		err: (error) => console.log("Failed:", formatApiError(error)),
-	});
+	console.log(toResponse(result1));
 
 	// Validation failure: invalid email format
 	const result2 = await createUser({
@@ -139,11 +136,8 @@ async function main() {
 		name: "Test",
 		password: "short",
 	});
-	result2.match({
-		ok: (user) => console.log("Created user:", user),
-		err: (error) => console.log("Failed:", formatApiError(error)),
-	});
-	// Failed: { status: 400, body: { error: "Invalid email format" } }
+	console.log(toResponse(result2));
+	// { status: 400, body: { error: "Invalid email format" } }
 
 	// Business logic failure: email already exists
 	const result3 = await createUser({
@@ -151,11 +145,8 @@ async function main() {
 		name: "Alice Clone",
 		password: "securepassword123",
 	});
-	result3.match({
-		ok: (user) => console.log("Created user:", user),
-		err: (error) => console.log("Failed:", formatApiError(error)),
-	});
-	// Failed: { status: 400, body: { error: "Email already exists" } }
+	console.log(toResponse(result3));
+	// { status: 400, body: { error: "Email already exists" } }
 }
 
 main();
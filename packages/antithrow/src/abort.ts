@@ -0,0 +1,43 @@
+/**
+ * Settles with `promise`, or with the value computed by `onAbort` as soon as `signal` aborts,
+ * whichever comes first. If `onAbort` throws, the returned promise rejects with that error.
+ * The abort listener is removed once `promise` settles, so a long-lived signal does not
+ * accumulate listeners.
+ *
+ * @param promise - The promise to race against the signal.
+ * @param signal - The signal to listen to.
+ * @param onAbort - Computes the settled value from the abort reason.
+ *
+ * @returns A promise that settles with whichever finishes first.
+ */
+export function raceAbort<R>(
+	promise: PromiseLike<R>,
+	signal: AbortSignal,
+	onAbort: (reason: unknown) => R,
+): Promise<R> {
+	return new Promise((resolve, reject) => {
+		if (signal.aborted) {
+			resolve(onAbort(signal.reason));
+			return;
+		}
+
+		const abort = () => {
+			try {
+				resolve(onAbort(signal.reason));
+			} catch (error) {
+				reject(error);
+			}
+		};
+		signal.addEventListener("abort", abort, { once: true });
+		promise.then(
+			(value) => {
+				signal.removeEventListener("abort", abort);
+				resolve(value);
+			},
+			(reason: unknown) => {
+				signal.removeEventListener("abort", abort);
+				reject(reason);
+			},
+		);
+	});
+}
@@ -0,0 +1,21 @@
+/**
+ * The brand of `Ok` and `Err` instances, valued `"ok"` or `"err"`. Registered with `Symbol.for`,
+ * so instances created by another copy of antithrow carry the same brand.
+ */
+export const resultBrand = Symbol.for("antithrow.Result");
+
+/**
+ * The brand of `ResultAsync` instances, shared across copies of antithrow like {@link resultBrand}.
+ */
+export const resultAsyncBrand = Symbol.for("antithrow.ResultAsync");
+
+/**
+ * Reads the brand of a value, or returns `undefined` if it has none.
+ */
+export function brandOf(value: unknown, brand: symbol): unknown {
+	if (typeof value !== "object" || value === null) {
+		return undefined;
+	}
+
+	return (value as Record<symbol, unknown>)[brand];
+}
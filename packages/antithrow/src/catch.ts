@@ -0,0 +1,57 @@
+/**
+ * Restricts which thrown values `Result.try` and `ResultAsync.try` convert into an `Err`,
+ * using a type guard. Values rejected by `catchIf` are rethrown as defects.
+ *
+ * @template C - The type of the thrown values that are caught.
+ * @template E - The type of the error value.
+ */
+export interface CatchGuard<C, E> {
+	/** Decides whether a thrown value is an expected error. */
+	catchIf(caught: unknown): caught is C;
+	/** Converts a caught value into the error value. Defaults to using it as is. */
+	mapError?(caught: C): E;
+}
+
+/**
+ * Restricts which thrown values `Result.try` and `ResultAsync.try` convert into an `Err`,
+ * using a plain predicate. Values rejected by `catchIf` are rethrown as defects.
+ *
+ * @template E - The type of the error value.
+ */
+export interface CatchFilter<E> {
+	/** Decides whether a thrown value is an expected error. */
+	catchIf(caught: unknown): boolean;
+	/** Converts a caught value into the error value. */
+	mapError(caught: unknown): E;
+}
+
+/**
+ * How a thrown value becomes an error value: a mapper, a guard or filter, or nothing at all.
+ */
+export type CatchHandler<E> = ((caught: unknown) => E) | CatchGuard<unknown, E> | CatchFilter<E>;
+
+/**
+ * Converts a thrown value into an error value using `handler`, rethrowing it if the handler
+ * does not accept it.
+ *
+ * @param caught - The thrown value.
+ * @param handler - The handler, or `undefined` to use the value as is.
+ *
+ * @returns The error value.
+ */
+export function toError<E>(caught: unknown, handler: CatchHandler<E> | undefined): E {
+	if (handler === undefined) {
+		// Without a handler the caller has declared `E` for us; there is nothing to check.
+		return caught as E;
+	}
+
+	if (typeof handler === "function") {
+		return handler(caught);
+	}
+
+	if (!handler.catchIf(caught)) {
+		throw caught;
+	}
+
+	return handler.mapError ? handler.mapError(caught) : (caught as E);
+}
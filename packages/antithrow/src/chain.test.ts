@@ -147,7 +147,130 @@ describe("chain", () => {
 		});
 	});
 
+	describe("resources", () => {
+		test("disposes a using declaration once when short-circuiting", () => {
+			let disposed = 0;
+			const result = chain(function* () {
+				using _resource = yield* ok({
+					[Symbol.dispose]: () => {
+						disposed++;
+					},
+				});
+				yield* err("oops");
+				return 1;
+			});
+			expect(result.unwrapErr()).toBe("oops");
+			expect(disposed).toBe(1);
+		});
+
+		test("disposes an await using declaration once when short-circuiting", async () => {
+			let disposed = 0;
+			const result = await chain(async function* () {
+				await using _resource = yield* okAsync({
+					[Symbol.asyncDispose]: async () => {
+						disposed++;
+					},
+				});
+				yield* err("oops");
+				return 1;
+			});
+			expect(result.unwrapErr()).toBe("oops");
+			expect(disposed).toBe(1);
+		});
+
+		test("disposes an await using declaration once on success", async () => {
+			let disposed = 0;
+			const result = await chain(async function* () {
+				await using _resource = yield* okAsync({
+					[Symbol.asyncDispose]: async () => {
+						disposed++;
+					},
+				});
+				return 1;
+			});
+			expect(result.unwrap()).toBe(1);
+			expect(disposed).toBe(1);
+		});
+	});
+
+	describe("async with signal", () => {
+		test("returns the chain result when not aborted", async () => {
+			const controller = new AbortController();
+			const result = await chain(
+				async function* () {
+					const a = yield* okAsync(1);
+					return a + 1;
+				},
+				{ signal: controller.signal, onAbort: () => "aborted" },
+			);
+			expect(result.unwrap()).toBe(2);
+		});
+
+		test("does not start the generator when already aborted", async () => {
+			const controller = new AbortController();
+			controller.abort("reason");
+			let started = false;
+			const result = await chain(
+				async function* () {
+					started = true;
+					return yield* ok(1);
+				},
+				{ signal: controller.signal, onAbort: (reason) => `aborted: ${reason}` },
+			);
+			expect(result.unwrapErr()).toBe("aborted: reason");
+			expect(started).toBe(false);
+		});
+
+		test("returns Err from onAbort when aborted mid-flight", async () => {
+			const controller = new AbortController();
+			const pending = chain(
+				async function* () {
+					return yield* await new Promise<Result<number, string>>(() => {});
+				},
+				{ signal: controller.signal, onAbort: (reason) => `aborted: ${reason}` },
+			);
+			controller.abort("reason");
+			expect((await pending).unwrapErr()).toBe("aborted: reason");
+		});
+
+		test("runs finally blocks once the generator stops", async () => {
+			const controller = new AbortController();
+			let settle: (value: Result<number, string>) => void = () => {};
+			let cleanedUp = false;
+			const pending = chain(
+				async function* () {
+					try {
+						const a = yield* await new Promise<Result<number, string>>((resolve) => {
+							settle = resolve;
+						});
+						return a;
+					} finally {
+						cleanedUp = true;
+					}
+				},
+				{ signal: controller.signal, onAbort: () => "aborted" },
+			);
+			controller.abort();
+			expect((await pending).unwrapErr()).toBe("aborted");
+			expect(cleanedUp).toBe(false);
+
+			settle(ok(1));
+			await new Promise((r) => setTimeout(r, 0));
+			expect(cleanedUp).toBe(true);
+		});
+	});
+
 	describe("types", () => {
+		test("async chain with signal adds the onAbort error to the error type", () => {
+			const result = chain(
+				async function* () {
+					return yield* ok<number, "oops">(1);
+				},
+				{ signal: new AbortController().signal, onAbort: () => "aborted" as const },
+			);
+			expectTypeOf(result).toEqualTypeOf<ResultAsync<number, "oops" | "aborted">>();
+		});
+
 		test("sync chain returns Result<T, E>", () => {
 			const result = chain(function* () {
 				const a = yield* ok<number, string>(1);
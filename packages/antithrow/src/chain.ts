@@ -1,15 +1,30 @@
+import { raceAbort } from "./abort.js";
 import type { Err, Result } from "./result.js";
-import { ok } from "./result.js";
-import { ResultAsync } from "./result-async.js";
+import { err, ok } from "./result.js";
+import { errAsync, ResultAsync } from "./result-async.js";
 import type { InferErr } from "./types.js";
 
 export type SyncChainGenerator<T, E> = Generator<Err<never, E>, T, void>;
 export type AsyncChainGenerator<T, E> = AsyncGenerator<Err<never, E>, T, void>;
 
+/**
+ * Options for cancelling an async {@link chain}.
+ *
+ * @template F - The type of the error produced when the chain is aborted.
+ */
+interface ChainOptions<F> {
+	/** Aborts the chain. */
+	signal: AbortSignal;
+	/** Computes the error the chain resolves to when aborted. */
+	onAbort: (reason: unknown) => F;
+}
+
 /**
  * Chains multiple Result operations using generator syntax for early return on errors.
  *
  * Use `yield*` with a `Result` to unwrap its value or short-circuit on error.
+ * To unwrap an `Option`, convert it with `option.okOr(error)` so that `None`
+ * short-circuits with your own error.
  * Thrown exceptions from the generator body are not converted into `Err`.
  * Wrap throwable logic with `Result.try(...)` before yielding/returning.
  *
@@ -20,6 +35,11 @@ export type AsyncChainGenerator<T, E> = AsyncGenerator<Err<never, E>, T, void>;
  *   const b = yield* ok(2);
  *   return a + b;
  * });
+ *
+ * const user = chain(function* () {
+ *   const id = yield* parseId(input);
+ *   return yield* findUser(id).okOr(new NotFound(id));
+ * });
  * ```
  *
  * @template T - The type of the success value.
@@ -58,23 +78,74 @@ export function chain<T, E, YieldErr extends Err<never, E>>(
 export function chain<T, E, YieldErr extends Err<never, E>>(
 	generator: () => AsyncGenerator<YieldErr, T, void>,
 ): ResultAsync<T, InferErr<YieldErr>>;
+/**
+ * Chains multiple ResultAsync operations using async generator syntax, with cancellation.
+ *
+ * When `signal` aborts, the chain resolves immediately to an `Err` computed by `onAbort`.
+ * The generator itself can't be interrupted mid-step, so it is stopped with `return()` at its
+ * next `yield`, and its `finally` blocks run then. Pass the same signal to the operations
+ * inside the generator so the pending step stops as well.
+ *
+ * @example
+ * ```ts
+ * const controller = new AbortController();
+ * const result = chain(
+ *   async function* () {
+ *     const user = yield* fetchUser(id, { signal: controller.signal });
+ *     return user.name;
+ *   },
+ *   { signal: controller.signal, onAbort: (reason) => new CancelledError(reason) },
+ * );
+ * ```
+ *
+ * @template T - The type of the success value.
+ * @template E - The type of the error value.
+ * @template F - The type of the error produced when the chain is aborted.
+ *
+ * @param generator - An async generator function that yields `Err` values and returns a success value.
+ * @param options - The signal that aborts the chain, and the error to produce when it does.
+ *
+ * @returns A `ResultAsync` containing the final value, the first error encountered, or the abort error.
+ */
+export function chain<T, E, YieldErr extends Err<never, E>, F>(
+	generator: () => AsyncGenerator<YieldErr, T, void>,
+	options: ChainOptions<F>,
+): ResultAsync<T, InferErr<YieldErr> | F>;
 export function chain<T, E>(
 	generator: () => SyncChainGenerator<T, E> | AsyncChainGenerator<T, E>,
+	options?: ChainOptions<E>,
 ): Result<T, E> | ResultAsync<T, E> {
 	const iter = generator();
 
 	if (Symbol.asyncIterator in iter) {
-		return ResultAsync.fromPromise(
-			iter.next().then(async (next) => {
-				if (!next.done) {
-					// Call `asyncIter.return` to ensure any cleanup is done.
-					// We pass `undefined as T` because the actual value is irrelevant.
-					await iter.return?.(undefined as T);
+		if (options?.signal.aborted) {
+			return errAsync(options.onAbort(options.signal.reason));
+		}
+
+		const promise = iter.next().then(async (next) => {
+			if (!next.done) {
+				// Call `asyncIter.return` to ensure any cleanup is done.
+				// We pass `undefined as T` because the actual value is irrelevant.
+				await iter.return?.(undefined as T);
+
+				return next.value;
+			}
 
-					return next.value;
-				}
+			return ok(next.value);
+		});
+
+		if (!options) {
+			return ResultAsync.fromPromise(promise);
+		}
+
+		const { signal, onAbort } = options;
+		return ResultAsync.fromPromise(
+			raceAbort(promise, signal, (reason) => {
+				// `return` is queued until the generator next yields, at which point its cleanup
+				// runs. Don't wait for it: the chain is already aborted.
+				void iter.return?.(undefined as T);
 
-				return ok(next.value);
+				return err(onAbort(reason));
 			}),
 		);
 	}
@@ -0,0 +1,71 @@
+import { describe, expect, expectTypeOf, test } from "bun:test";
+import { ContextError, formatErrorChain } from "./context.js";
+import { TaggedError } from "./tagged-error.js";
+
+describe("context", () => {
+	describe("ContextError", () => {
+		test("uses the context as the message and keeps the cause", () => {
+			const cause = new Error("ENOENT");
+			const error = new ContextError("loading config", cause);
+			expect(error).toBeInstanceOf(Error);
+			expect(error.name).toBe("ContextError");
+			expect(error.message).toBe("loading config");
+			expect(error.cause).toBe(cause);
+		});
+
+		test("accepts non-Error causes", () => {
+			expect(new ContextError("parsing", "bad token").cause).toBe("bad token");
+		});
+	});
+
+	describe("formatErrorChain", () => {
+		test("renders a single error", () => {
+			expect(formatErrorChain(new TypeError("boom"))).toBe("TypeError: boom");
+		});
+
+		test("renders non-Error values", () => {
+			expect(formatErrorChain("oops")).toBe("oops");
+		});
+
+		test("renders errors with an empty message by name", () => {
+			class NotFound extends TaggedError("NotFound") {}
+			expect(formatErrorChain(new NotFound())).toBe("NotFound");
+		});
+
+		test("renders the cause chain, outermost first", () => {
+			const error = new ContextError(
+				"loading user config",
+				new ContextError("reading /app/config.json", new Error("ENOENT: no such file")),
+			);
+			expect(formatErrorChain(error)).toBe(
+				[
+					"loading user config",
+					"",
+					"Caused by:",
+					"    0: reading /app/config.json",
+					"    1: Error: ENOENT: no such file",
+				].join("\n"),
+			);
+		});
+
+		test("follows causes of plain errors", () => {
+			const error = new Error("request failed", { cause: new Error("socket closed") });
+			expect(formatErrorChain(error)).toBe(
+				"Error: request failed\n\nCaused by:\n    0: Error: socket closed",
+			);
+		});
+
+		test("stops at cycles", () => {
+			const a = new Error("a");
+			const b = new Error("b", { cause: a });
+			a.cause = b;
+			expect(formatErrorChain(a)).toBe("Error: a\n\nCaused by:\n    0: Error: b");
+		});
+	});
+
+	describe("types", () => {
+		test("cause has the type of the underlying error", () => {
+			expectTypeOf(new ContextError("ctx", 42).cause).toEqualTypeOf<number>();
+		});
+	});
+});
@@ -0,0 +1,76 @@
+/**
+ * An error that adds a description of what was being done to an underlying error, kept as
+ * `cause`. Produced by `context` and `withContext` on `Result` and `ResultAsync`.
+ *
+ * @example
+ * ```ts
+ * const config = readFile(path, "utf8").context(`loading config from ${path}`);
+ * // ResultAsync<string, ContextError<NodeJS.ErrnoException>>
+ * ```
+ *
+ * @template E - The type of the underlying error.
+ */
+export class ContextError<E> extends Error {
+	override readonly name = "ContextError";
+	/** The underlying error. */
+	declare readonly cause: E;
+
+	/**
+	 * Creates a new ContextError.
+	 *
+	 * @param context - What was being done when the error occurred.
+	 * @param cause - The underlying error.
+	 */
+	constructor(context: string, cause: E) {
+		super(context, { cause });
+	}
+}
+
+/**
+ * Describes a single link of a cause chain.
+ */
+function describe(error: unknown): string {
+	if (error instanceof ContextError) {
+		return error.message;
+	}
+
+	if (error instanceof Error) {
+		return error.message ? `${error.name}: ${error.message}` : error.name;
+	}
+
+	return String(error);
+}
+
+/**
+ * Renders an error and its chain of `cause`s for logging, outermost first.
+ *
+ * @example
+ * ```ts
+ * formatErrorChain(error);
+ * // loading user config
+ * //
+ * // Caused by:
+ * //     0: reading /home/me/.app/config.json
+ * //     1: Error: ENOENT: no such file or directory
+ * ```
+ *
+ * @param error - The error to render. Need not be an `Error`.
+ *
+ * @returns The error's description, followed by a numbered list of its causes.
+ */
+export function formatErrorChain(error: unknown): string {
+	const causes: string[] = [];
+	const seen = new Set<unknown>([error]);
+	let current = error;
+	while (current instanceof Error && "cause" in current && !seen.has(current.cause)) {
+		current = current.cause;
+		seen.add(current);
+		causes.push(`    ${causes.length}: ${describe(current)}`);
+	}
+
+	if (causes.length === 0) {
+		return describe(error);
+	}
+
+	return `${describe(error)}\n\nCaused by:\n${causes.join("\n")}`;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { display } from "./display.js";
+import { err, ok } from "./result.js";
+import { TaggedError } from "./tagged-error.js";
+
+describe("display", () => {
+	test("renders primitives the way they are written in code", () => {
+		expect(display(42)).toBe("42");
+		expect(display("user")).toBe('"user"');
+		expect(display(10n)).toBe("10n");
+		expect(display(null)).toBe("null");
+		expect(display(undefined)).toBe("undefined");
+		expect(display(true)).toBe("true");
+	});
+
+	test("renders arrays and plain objects on one line", () => {
+		expect(display([1, "a"])).toBe('[1, "a"]');
+		expect(display({ id: 1, tags: ["a"] })).toBe('{ id: 1, tags: ["a"] }');
+		expect(display({ "content-type": "json" })).toBe('{ "content-type": "json" }');
+		expect(display({})).toBe("{}");
+	});
+
+	test("renders class instances with their name", () => {
+		class Point {
+			constructor(
+				readonly x: number,
+				readonly y: number,
+			) {}
+		}
+		expect(display(new Point(1, 2))).toBe("Point { x: 1, y: 2 }");
+	});
+
+	test("renders errors by name, message and fields, without the stack", () => {
+		class NotFound extends TaggedError("NotFound")<{ resource: string }> {}
+		expect(display(new NotFound({ resource: "user" }))).toBe('NotFound { resource: "user" }');
+		expect(display(new Error("boom"))).toBe('Error { message: "boom" }');
+		expect(display(new TypeError())).toBe("TypeError");
+	});
+
+	test("renders functions by name", () => {
+		expect(display(function load() {})).toBe("[Function load]");
+		expect(display(() => {})).toBe("[Function]");
+	});
+
+	test("renders nested results inline", () => {
+		expect(display({ result: ok(1) })).toBe("{ result: Ok(1) }");
+		expect(display([err("bad")])).toBe('[Err("bad")]');
+		expect(display(ok(err({ id: 1 })))).toBe("Ok(Err({ id: 1 }))");
+	});
+
+	test("marks a result that contains itself as circular", () => {
+		const holder: { result?: unknown } = {};
+		const result = ok(holder);
+		holder.result = result;
+		expect(display(result)).toBe("Ok({ result: [Circular] })");
+	});
+
+	test("renders dates, regular expressions, maps and sets with their content", () => {
+		expect(display(new Date(0))).toBe("1970-01-01T00:00:00.000Z");
+		expect(display(new Date(Number.NaN))).toBe("Invalid Date");
+		expect(display(/ab+c/gi)).toBe("/ab+c/gi");
+		expect(display(new Map([["a", { id: 1 }]]))).toBe('Map(1) { "a" => { id: 1 } }');
+		expect(display(new Set([1, "a"]))).toBe('Set(2) { 1, "a" }');
+		expect(display(new Map())).toBe("Map(0) {}");
+	});
+
+	test("marks circular references", () => {
+		const node: { name: string; self?: unknown } = { name: "a" };
+		node.self = node;
+		expect(display(node)).toBe('{ name: "a", self: [Circular] }');
+	});
+
+	test("renders a value referenced twice in full both times", () => {
+		const shared = { id: 1 };
+		expect(display([shared, shared])).toBe("[{ id: 1 }, { id: 1 }]");
+	});
+
+	test("abbreviates deeply nested values", () => {
+		expect(display({ a: { b: { c: { d: { e: { f: 1 } } } } } })).toBe(
+			"{ a: { b: { c: { d: { e: [Object] } } } } }",
+		);
+	});
+});
@@ -0,0 +1,138 @@
+import { brandOf, resultBrand } from "./brand.js";
+
+/**
+ * The symbol Node and Bun look up to render a value in `console.log` and `util.inspect`.
+ */
+export const inspectCustom = Symbol.for("nodejs.util.inspect.custom");
+
+/**
+ * The `util.inspect` function Node and Bun pass to an `inspectCustom` method.
+ */
+export type Inspect = (value: unknown, options?: unknown) => string;
+
+/** How many levels of nested objects to render before abbreviating them. */
+const MAX_DEPTH = 4;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * The fields rendered for an error: its message, if any, and its own enumerable fields other
+ * than `name` and `_tag`, which the rendered name already covers.
+ */
+function errorFields(error: Error): Record<string, unknown> {
+	const { name: _name, _tag: _, message, ...fields } = error as Error & Record<string, unknown>;
+	return message ? { message, ...fields } : fields;
+}
+
+/**
+ * Renders a `Map` or `Set` like Node does, with its size and entries.
+ */
+function displayCollection(
+	value: Map<unknown, unknown> | Set<unknown>,
+	depth: number,
+	seen: Set<object>,
+): string {
+	const kind = value instanceof Map ? "Map" : "Set";
+	if (depth > MAX_DEPTH) {
+		return `[${kind}]`;
+	}
+
+	const entries =
+		value instanceof Map
+			? Array.from(
+					value,
+					([key, item]) => `${display(key, depth + 1, seen)} => ${display(item, depth + 1, seen)}`,
+				)
+			: Array.from(value, (item) => display(item, depth + 1, seen));
+	const body = entries.length === 0 ? "{}" : `{ ${entries.join(", ")} }`;
+	return `${kind}(${value.size}) ${body}`;
+}
+
+/**
+ * Renders an object by its class name and own enumerable fields, or an error by its name and
+ * {@link errorFields}.
+ */
+function displayFields(value: object, depth: number, seen: Set<object>): string {
+	const name = value instanceof Error ? value.name : value.constructor?.name;
+	const label = name && name !== "Object" ? name : "";
+	if (depth > MAX_DEPTH) {
+		return `[${label || "Object"}]`;
+	}
+
+	const fields = value instanceof Error ? errorFields(value) : { ...value };
+	const entries = Object.entries(fields).map(([key, field]) => {
+		const property = IDENTIFIER.test(key) ? key : JSON.stringify(key);
+		return `${property}: ${display(field, depth + 1, seen)}`;
+	});
+	if (entries.length === 0) {
+		return label || "{}";
+	}
+
+	const body = `{ ${entries.join(", ")} }`;
+	return label ? `${label} ${body}` : body;
+}
+
+function displayObject(value: object, depth: number, seen: Set<object>): string {
+	// Nested results are rendered here rather than by their own `toString`, so that they share
+	// `depth` and `seen`, and a result that contains itself is marked as circular.
+	const brand = brandOf(value, resultBrand);
+	if (brand === "ok") {
+		return `Ok(${display((value as { value: unknown }).value, depth, seen)})`;
+	}
+	if (brand === "err") {
+		return `Err(${display((value as { error: unknown }).error, depth, seen)})`;
+	}
+
+	if (Array.isArray(value)) {
+		if (depth > MAX_DEPTH) {
+			return "[Array]";
+		}
+		return `[${value.map((item) => display(item, depth + 1, seen)).join(", ")}]`;
+	}
+	if (value instanceof Map || value instanceof Set) {
+		return displayCollection(value, depth, seen);
+	}
+	if (value instanceof Date) {
+		return Number.isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+	}
+	if (value instanceof RegExp) {
+		return String(value);
+	}
+
+	return displayFields(value, depth, seen);
+}
+
+/**
+ * Renders a value on a single line for `toString`, the way it would be written in code:
+ * strings are quoted, and errors show their name and fields rather than their stack. Dates,
+ * regular expressions, maps and sets are rendered like Node renders them.
+ *
+ * @example
+ * ```ts
+ * display({ id: 1, tags: ["a"] }); // '{ id: 1, tags: ["a"] }'
+ * display(new NotFound({ resource: "user" })); // 'NotFound { resource: "user" }'
+ * ```
+ */
+export function display(value: unknown, depth = 0, seen = new Set<object>()): string {
+	if (typeof value === "string") {
+		return JSON.stringify(value);
+	}
+	if (typeof value === "bigint") {
+		return `${value}n`;
+	}
+	if (typeof value === "function") {
+		return value.name ? `[Function ${value.name}]` : "[Function]";
+	}
+	if (typeof value !== "object" || value === null) {
+		return String(value);
+	}
+	if (seen.has(value)) {
+		return "[Circular]";
+	}
+
+	seen.add(value);
+	const rendered = displayObject(value, depth, seen);
+	seen.delete(value);
+
+	return rendered;
+}
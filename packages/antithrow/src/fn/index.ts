@@ -0,0 +1,2 @@
+export { andThen, map, mapErr, tap } from "./operators.js";
+export { pipe } from "./pipe.js";
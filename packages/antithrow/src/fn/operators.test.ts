@@ -0,0 +1,97 @@
+import { describe, expect, expectTypeOf, test } from "bun:test";
+import type { Result } from "../result.js";
+import { err, ok } from "../result.js";
+import type { ResultAsync } from "../result-async.js";
+import { errAsync, okAsync } from "../result-async.js";
+import { andThen, map, mapErr, tap } from "./operators.js";
+
+describe("operators", () => {
+	describe("map", () => {
+		test("maps the success value of a Result", () => {
+			expect(map((x: number) => x * 2)(ok(2))).toEqual(ok(4));
+			expect(map((x: number) => x * 2)(err("oops"))).toEqual(err("oops"));
+		});
+
+		test("maps the success value of a ResultAsync", async () => {
+			expect(await map(async (x: number) => x * 2)(okAsync(2))).toEqual(ok(4));
+			expect(await map((x: number) => x * 2)(errAsync("oops"))).toEqual(err("oops"));
+		});
+	});
+
+	describe("mapErr", () => {
+		test("maps the error value of a Result", () => {
+			expect(mapErr((e: string) => e.toUpperCase())(err("oops"))).toEqual(err("OOPS"));
+			expect(mapErr((e: string) => e.toUpperCase())(ok(1))).toEqual(ok(1));
+		});
+
+		test("maps the error value of a ResultAsync", async () => {
+			expect(await mapErr((e: string) => e.length)(errAsync("oops"))).toEqual(err(4));
+		});
+	});
+
+	describe("andThen", () => {
+		const positive = (x: number): Result<number, "negative"> => (x > 0 ? ok(x) : err("negative"));
+
+		test("chains a Result-returning function", () => {
+			expect(andThen(positive)(ok(1))).toEqual(ok(1));
+			expect(andThen(positive)(ok(-1))).toEqual(err("negative"));
+			expect(andThen(positive)(err("oops"))).toEqual(err("oops"));
+		});
+
+		test("chains an asynchronous function on a ResultAsync", async () => {
+			const double = andThen((x: number) => okAsync(x * 2));
+			expect(await double(okAsync(2))).toEqual(ok(4));
+			expect(await double(errAsync("oops"))).toEqual(err("oops"));
+		});
+	});
+
+	describe("tap", () => {
+		test("calls fn with the success value and returns the result", () => {
+			const seen: number[] = [];
+			const log = tap((x: number) => seen.push(x));
+			expect(log(ok(1))).toEqual(ok(1));
+			expect(log(err("oops"))).toEqual(err("oops"));
+			expect(seen).toEqual([1]);
+		});
+
+		test("waits for fn on a ResultAsync", async () => {
+			const seen: number[] = [];
+			const log = tap(async (x: number) => {
+				await Promise.resolve();
+				seen.push(x);
+			});
+			expect(await log(okAsync(1))).toEqual(ok(1));
+			expect(seen).toEqual([1]);
+		});
+	});
+
+	describe("types", () => {
+		test("operators keep the input's sync or async type", () => {
+			const double = map((x: number) => x * 2);
+			expectTypeOf(double(ok<number, "e">(1))).toEqualTypeOf<Result<number, "e">>();
+			expectTypeOf(double(okAsync<number, "e">(1))).toEqualTypeOf<ResultAsync<number, "e">>();
+		});
+
+		test("map awaits asynchronous functions on a ResultAsync", () => {
+			const double = map(async (x: number) => x * 2);
+			expectTypeOf(double(okAsync<number, "e">(1))).toEqualTypeOf<ResultAsync<number, "e">>();
+		});
+
+		test("mapErr replaces the error type", () => {
+			const length = mapErr((e: string) => e.length);
+			expectTypeOf(length(err<boolean, string>("oops"))).toEqualTypeOf<Result<boolean, number>>();
+		});
+
+		test("andThen adds the error type", () => {
+			const next = andThen((x: number) => (x > 0 ? ok(x) : err("negative" as const)));
+			expectTypeOf(next(ok<number, "e">(1))).toEqualTypeOf<Result<number, "e" | "negative">>();
+		});
+
+		test("an asynchronous andThen only accepts a ResultAsync", () => {
+			const next = andThen((x: number) => okAsync<string, "f">(String(x)));
+			expectTypeOf(next(okAsync<number, "e">(1))).toEqualTypeOf<ResultAsync<string, "e" | "f">>();
+			// @ts-expect-error - call toAsync() on a Result first
+			next(ok(1));
+		});
+	});
+});
@@ -0,0 +1,157 @@
+import type { Result } from "../result.js";
+import type { ResultAsync } from "../result-async.js";
+import type { AnyResult, InferErr, InferOk } from "../types.js";
+import type { Lift } from "./types.js";
+
+/**
+ * A type that can be either a value or a promise-like containing that value.
+ */
+type MaybePromise<T> = T | PromiseLike<T>;
+
+/**
+ * An operator on the success value of a result. Keeps the errors of its input and adds `F`.
+ * Given a `ResultAsync`, it returns a `ResultAsync`.
+ *
+ * @template T - The type of the success value it accepts.
+ * @template E - The type of the error value, when inferred from a {@link pipe}.
+ * @template U - The type of the new success value.
+ * @template F - The type of the errors it adds.
+ */
+interface ValueOperator<T, E, U, F> {
+	<R extends AnyResult<T, unknown>>(result: R): Lift<R, Result<U, InferErr<R> | F>>;
+	(result: AnyResult<T, E>): Result<U, E | F>;
+}
+
+/**
+ * An operator on the success value of a `ResultAsync`, for asynchronous functions.
+ *
+ * @template T - The type of the success value it accepts.
+ * @template E - The type of the error value, when inferred from a {@link pipe}.
+ * @template U - The type of the new success value.
+ * @template F - The type of the errors it adds.
+ */
+interface AsyncValueOperator<T, E, U, F> {
+	<R extends ResultAsync<T, unknown>>(result: R): ResultAsync<U, InferErr<R> | F>;
+	(result: ResultAsync<T, E>): ResultAsync<U, E | F>;
+}
+
+/**
+ * An operator on the error value of a result. Keeps the success value of its input. Given a
+ * `ResultAsync`, it returns a `ResultAsync`.
+ *
+ * @template T - The type of the success value, when inferred from a {@link pipe}.
+ * @template E - The type of the error value it accepts.
+ * @template F - The type of the new error value.
+ */
+interface ErrorOperator<T, E, F> {
+	<R extends AnyResult<unknown, E>>(result: R): Lift<R, Result<InferOk<R>, F>>;
+	(result: AnyResult<T, E>): Result<T, F>;
+}
+
+/**
+ * Creates an operator that maps the success value, like `Result.map`.
+ *
+ * @example
+ * ```ts
+ * pipe(ok(2), map((x) => x * 2)); // ok(4)
+ * pipe(okAsync(2), map(async (x) => x * 2)); // okAsync(4)
+ * ```
+ *
+ * @template T - The type of the success value.
+ * @template U - The type of the new success value.
+ * @template E - The type of the error value.
+ *
+ * @param fn - The function to apply to the success value.
+ *
+ * @returns An operator mapping the success value of a `Result` or `ResultAsync`.
+ */
+export function map<T, U, E>(fn: (value: T) => U): ValueOperator<T, E, U, never> {
+	// `ResultAsync` has the same method, so the cast only serves the type checker.
+	return ((result: Result<T, E>) => result.map(fn)) as ValueOperator<T, E, U, never>;
+}
+
+/**
+ * Creates an operator that maps the error value, like `Result.mapErr`.
+ *
+ * @example
+ * ```ts
+ * pipe(err("oops"), mapErr((e) => e.toUpperCase())); // err("OOPS")
+ * ```
+ *
+ * @template E - The type of the error value.
+ * @template F - The type of the new error value.
+ * @template T - The type of the success value.
+ *
+ * @param fn - The function to apply to the error value.
+ *
+ * @returns An operator mapping the error value of a `Result` or `ResultAsync`.
+ */
+export function mapErr<E, F, T>(fn: (error: E) => F): ErrorOperator<T, E, F> {
+	return ((result: Result<T, E>) => result.mapErr(fn)) as ErrorOperator<T, E, F>;
+}
+
+/**
+ * Creates an operator that chains another `Result`-returning function, like `Result.andThen`.
+ *
+ * @example
+ * ```ts
+ * pipe(ok(2), andThen((x) => (x > 0 ? ok(x) : err("negative")))); // ok(2)
+ * ```
+ *
+ * @template T - The type of the success value.
+ * @template U - The type of the new success value.
+ * @template F - The type of the new error value.
+ * @template E - The type of the error value.
+ *
+ * @param fn - The function to call with the success value.
+ *
+ * @returns An operator chaining `fn` on a `Result` or `ResultAsync`.
+ */
+export function andThen<T, U, F, E>(fn: (value: T) => Result<U, F>): ValueOperator<T, E, U, F>;
+/**
+ * Creates an operator that chains an asynchronous function, like `ResultAsync.andThen`. It only
+ * accepts a `ResultAsync`: call `toAsync()` on a `Result` first.
+ *
+ * @example
+ * ```ts
+ * pipe(ok(id).toAsync(), andThen((id) => fetchUser(id))); // ResultAsync<User, FetchError>
+ * ```
+ *
+ * @template T - The type of the success value.
+ * @template U - The type of the new success value.
+ * @template F - The type of the new error value.
+ * @template E - The type of the error value.
+ *
+ * @param fn - The function to call with the success value.
+ *
+ * @returns An operator chaining `fn` on a `ResultAsync`.
+ */
+export function andThen<T, U, F, E>(
+	fn: (value: T) => MaybePromise<Result<U, F>> | ResultAsync<U, F>,
+): AsyncValueOperator<T, E, U, F>;
+export function andThen<T, U, F>(
+	fn: (value: T) => MaybePromise<Result<U, F>> | ResultAsync<U, F>,
+): (result: AnyResult<T, unknown>) => AnyResult<U, unknown> {
+	// `Result.andThen` has the same behavior, and only receives a `fn` returning a `Result`.
+	return (result) => (result as ResultAsync<T, unknown>).andThen(fn);
+}
+
+/**
+ * Creates an operator that calls a function with the success value for its side effects, like
+ * `Result.inspect`, and returns the result unchanged.
+ *
+ * @example
+ * ```ts
+ * pipe(ok(2), tap((x) => console.log(x))); // logs 2, returns ok(2)
+ * ```
+ *
+ * @template T - The type of the success value.
+ * @template E - The type of the error value.
+ *
+ * @param fn - The function to call with the success value.
+ *
+ * @returns An operator inspecting the success value of a `Result` or `ResultAsync`.
+ */
+export function tap<T, E>(fn: (value: T) => MaybePromise<unknown>): ValueOperator<T, E, T, never> {
+	return ((result: Result<T, E>) => result.inspect(fn)) as ValueOperator<T, E, T, never>;
+}
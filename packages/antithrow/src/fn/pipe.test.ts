@@ -0,0 +1,153 @@
+import { describe, expect, expectTypeOf, test } from "bun:test";
+import type { Result } from "../result.js";
+import { err, ok } from "../result.js";
+import { okAsync, ResultAsync } from "../result-async.js";
+import { andThen, map, mapErr, tap } from "./operators.js";
+import { pipe } from "./pipe.js";
+
+const parse = (input: string): Result<number, "nan"> => {
+	const value = Number(input);
+	return Number.isNaN(value) ? err("nan") : ok(value);
+};
+
+const positive = (x: number): Result<number, "negative"> => (x > 0 ? ok(x) : err("negative"));
+
+describe("pipe", () => {
+	test("returns the value when there are no steps", () => {
+		expect(pipe(ok(1))).toEqual(ok(1));
+	});
+
+	test("runs the steps left to right", () => {
+		const result = pipe(
+			parse("21"),
+			andThen(positive),
+			map((x) => x * 2),
+			map((x) => `${x}!`),
+		);
+		expect(result).toEqual(ok("42!"));
+	});
+
+	test("short-circuits on Err", () => {
+		const seen: number[] = [];
+		const result = pipe(
+			parse("-1"),
+			andThen(positive),
+			tap((x) => seen.push(x)),
+			mapErr((e) => e.toUpperCase()),
+		);
+		expect(result).toEqual(err("NEGATIVE"));
+		expect(seen).toEqual([]);
+	});
+
+	test("runs asynchronous pipelines", async () => {
+		const result = pipe(
+			okAsync<string, "offline">("21"),
+			andThen(parse),
+			andThen(async (x) => positive(x)),
+			map(async (x) => x * 2),
+		);
+		expect(result).toBeInstanceOf(ResultAsync);
+		expect(await result).toEqual(ok(42));
+	});
+
+	test("converts a custom step's synchronous Result once the pipeline is asynchronous", async () => {
+		const result = pipe(okAsync<number, "offline">(1), () => ok(2));
+		expect(result).toBeInstanceOf(ResultAsync);
+		expect(await result.isOk()).toBe(true);
+		expect(await result).toEqual(ok(2));
+	});
+
+	test("accepts custom operators", () => {
+		const orZero = (result: Result<number, unknown>) => result.unwrapOr(0);
+		expect(
+			pipe(
+				parse("x"),
+				map((x) => x + 1),
+				orZero,
+			),
+		).toBe(0);
+	});
+
+	test("passes any value through", () => {
+		expect(
+			pipe(
+				"2",
+				(x) => Number(x),
+				(x) => x * 2,
+			),
+		).toBe(4);
+	});
+
+	describe("types", () => {
+		test("infers every step of a synchronous pipeline", () => {
+			const result = pipe(
+				parse("1"),
+				andThen(positive),
+				map((x) => String(x)),
+				mapErr((e) => new Error(e)),
+			);
+			expectTypeOf(result).toEqualTypeOf<Result<string, Error>>();
+		});
+
+		test("makes the pipeline asynchronous from a ResultAsync input", () => {
+			const result = pipe(
+				okAsync<number, "offline">(1),
+				map((x) => x + 1),
+				andThen(positive),
+			);
+			expectTypeOf(result).toEqualTypeOf<ResultAsync<number, "offline" | "negative">>();
+		});
+
+		test("makes the pipeline asynchronous from a step returning a ResultAsync", () => {
+			const result = pipe(
+				parse("1"),
+				(r) => r.toAsync(),
+				andThen((x) => okAsync<string, "slow">(String(x))),
+				map((s) => s.length),
+			);
+			expectTypeOf(result).toEqualTypeOf<ResultAsync<number, "nan" | "slow">>();
+		});
+
+		test("types a custom step's synchronous Result as a ResultAsync in an asynchronous pipeline", () => {
+			const result = pipe(okAsync<number, "offline">(1), () => ok(2));
+			expectTypeOf(result).toEqualTypeOf<ResultAsync<number, never>>();
+		});
+
+		test("rejects asynchronous steps on a synchronous pipeline", () => {
+			pipe(
+				// @ts-expect-error - an asynchronous andThen needs a ResultAsync: call toAsync() first
+				parse("1"),
+				andThen((x) => okAsync(x)),
+			);
+		});
+
+		test("infers twenty steps", () => {
+			const inc = (x: number) => x + 1;
+			const result = pipe(
+				ok<number, "e">(0),
+				map(inc),
+				map(inc),
+				map(inc),
+				map(inc),
+				map(inc),
+				map(inc),
+				map(inc),
+				map(inc),
+				map(inc),
+				map(inc),
+				map(inc),
+				map(inc),
+				map(inc),
+				map(inc),
+				map(inc),
+				map(inc),
+				map(inc),
+				map(inc),
+				map(inc),
+				map((x) => String(x)),
+			);
+			expectTypeOf(result).toEqualTypeOf<Result<string, "e">>();
+			expect(result).toEqual(ok("19"));
+		});
+	});
+});
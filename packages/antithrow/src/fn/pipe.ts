@@ -0,0 +1,309 @@
+import { brandOf, resultAsyncBrand, resultBrand } from "../brand.js";
+import type { Result } from "../result.js";
+import type { Lift } from "./types.js";
+
+/**
+ * Passes a value through a sequence of functions, left to right, and returns the last result.
+ *
+ * Any unary function can be a step, so operators from `antithrow/fn` mix freely with your own.
+ * Each step receives a `ResultAsync` once the input, or an earlier step, is asynchronous, and
+ * the result is typed accordingly. From then on, a step returning a synchronous `Result` has its
+ * result converted with `toAsync()`. Up to 20 steps are typed.
+ *
+ * @example
+ * ```ts
+ * import { andThen, map, pipe, tap } from "antithrow/fn";
+ *
+ * const total = pipe(
+ *   parseOrder(input),
+ *   andThen(validateOrder),
+ *   map((order) => order.items.length),
+ *   tap((count) => console.log(count)),
+ * );
+ * // Result<number, ParseError | ValidationError>
+ * ```
+ *
+ * @param value - The value to pass to the first step.
+ *
+ * @returns The result of the last step, or `value` if there are none.
+ */
+export function pipe<A>(value: A): A;
+export function pipe<A, B>(value: A, ab: (a: A) => B): Lift<A, B>;
+export function pipe<A, B, C>(value: A, ab: (a: A) => B, bc: (b: Lift<A, B>) => C): Lift<A | B, C>;
+export function pipe<A, B, C, D>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: Lift<A, B>) => C,
+	cd: (c: Lift<A | B, C>) => D,
+): Lift<A | B | C, D>;
+export function pipe<A, B, C, D, E>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: Lift<A, B>) => C,
+	cd: (c: Lift<A | B, C>) => D,
+	de: (d: Lift<A | B | C, D>) => E,
+): Lift<A | B | C | D, E>;
+export function pipe<A, B, C, D, E, F>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: Lift<A, B>) => C,
+	cd: (c: Lift<A | B, C>) => D,
+	de: (d: Lift<A | B | C, D>) => E,
+	ef: (e: Lift<A | B | C | D, E>) => F,
+): Lift<A | B | C | D | E, F>;
+export function pipe<A, B, C, D, E, F, G>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: Lift<A, B>) => C,
+	cd: (c: Lift<A | B, C>) => D,
+	de: (d: Lift<A | B | C, D>) => E,
+	ef: (e: Lift<A | B | C | D, E>) => F,
+	fg: (f: Lift<A | B | C | D | E, F>) => G,
+): Lift<A | B | C | D | E | F, G>;
+export function pipe<A, B, C, D, E, F, G, H>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: Lift<A, B>) => C,
+	cd: (c: Lift<A | B, C>) => D,
+	de: (d: Lift<A | B | C, D>) => E,
+	ef: (e: Lift<A | B | C | D, E>) => F,
+	fg: (f: Lift<A | B | C | D | E, F>) => G,
+	gh: (g: Lift<A | B | C | D | E | F, G>) => H,
+): Lift<A | B | C | D | E | F | G, H>;
+export function pipe<A, B, C, D, E, F, G, H, I>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: Lift<A, B>) => C,
+	cd: (c: Lift<A | B, C>) => D,
+	de: (d: Lift<A | B | C, D>) => E,
+	ef: (e: Lift<A | B | C | D, E>) => F,
+	fg: (f: Lift<A | B | C | D | E, F>) => G,
+	gh: (g: Lift<A | B | C | D | E | F, G>) => H,
+	hi: (h: Lift<A | B | C | D | E | F | G, H>) => I,
+): Lift<A | B | C | D | E | F | G | H, I>;
+export function pipe<A, B, C, D, E, F, G, H, I, J>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: Lift<A, B>) => C,
+	cd: (c: Lift<A | B, C>) => D,
+	de: (d: Lift<A | B | C, D>) => E,
+	ef: (e: Lift<A | B | C | D, E>) => F,
+	fg: (f: Lift<A | B | C | D | E, F>) => G,
+	gh: (g: Lift<A | B | C | D | E | F, G>) => H,
+	hi: (h: Lift<A | B | C | D | E | F | G, H>) => I,
+	ij: (i: Lift<A | B | C | D | E | F | G | H, I>) => J,
+): Lift<A | B | C | D | E | F | G | H | I, J>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: Lift<A, B>) => C,
+	cd: (c: Lift<A | B, C>) => D,
+	de: (d: Lift<A | B | C, D>) => E,
+	ef: (e: Lift<A | B | C | D, E>) => F,
+	fg: (f: Lift<A | B | C | D | E, F>) => G,
+	gh: (g: Lift<A | B | C | D | E | F, G>) => H,
+	hi: (h: Lift<A | B | C | D | E | F | G, H>) => I,
+	ij: (i: Lift<A | B | C | D | E | F | G | H, I>) => J,
+	jk: (j: Lift<A | B | C | D | E | F | G | H | I, J>) => K,
+): Lift<A | B | C | D | E | F | G | H | I | J, K>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: Lift<A, B>) => C,
+	cd: (c: Lift<A | B, C>) => D,
+	de: (d: Lift<A | B | C, D>) => E,
+	ef: (e: Lift<A | B | C | D, E>) => F,
+	fg: (f: Lift<A | B | C | D | E, F>) => G,
+	gh: (g: Lift<A | B | C | D | E | F, G>) => H,
+	hi: (h: Lift<A | B | C | D | E | F | G, H>) => I,
+	ij: (i: Lift<A | B | C | D | E | F | G | H, I>) => J,
+	jk: (j: Lift<A | B | C | D | E | F | G | H | I, J>) => K,
+	kl: (k: Lift<A | B | C | D | E | F | G | H | I | J, K>) => L,
+): Lift<A | B | C | D | E | F | G | H | I | J | K, L>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: Lift<A, B>) => C,
+	cd: (c: Lift<A | B, C>) => D,
+	de: (d: Lift<A | B | C, D>) => E,
+	ef: (e: Lift<A | B | C | D, E>) => F,
+	fg: (f: Lift<A | B | C | D | E, F>) => G,
+	gh: (g: Lift<A | B | C | D | E | F, G>) => H,
+	hi: (h: Lift<A | B | C | D | E | F | G, H>) => I,
+	ij: (i: Lift<A | B | C | D | E | F | G | H, I>) => J,
+	jk: (j: Lift<A | B | C | D | E | F | G | H | I, J>) => K,
+	kl: (k: Lift<A | B | C | D | E | F | G | H | I | J, K>) => L,
+	lm: (l: Lift<A | B | C | D | E | F | G | H | I | J | K, L>) => M,
+): Lift<A | B | C | D | E | F | G | H | I | J | K | L, M>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: Lift<A, B>) => C,
+	cd: (c: Lift<A | B, C>) => D,
+	de: (d: Lift<A | B | C, D>) => E,
+	ef: (e: Lift<A | B | C | D, E>) => F,
+	fg: (f: Lift<A | B | C | D | E, F>) => G,
+	gh: (g: Lift<A | B | C | D | E | F, G>) => H,
+	hi: (h: Lift<A | B | C | D | E | F | G, H>) => I,
+	ij: (i: Lift<A | B | C | D | E | F | G | H, I>) => J,
+	jk: (j: Lift<A | B | C | D | E | F | G | H | I, J>) => K,
+	kl: (k: Lift<A | B | C | D | E | F | G | H | I | J, K>) => L,
+	lm: (l: Lift<A | B | C | D | E | F | G | H | I | J | K, L>) => M,
+	mn: (m: Lift<A | B | C | D | E | F | G | H | I | J | K | L, M>) => N,
+): Lift<A | B | C | D | E | F | G | H | I | J | K | L | M, N>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: Lift<A, B>) => C,
+	cd: (c: Lift<A | B, C>) => D,
+	de: (d: Lift<A | B | C, D>) => E,
+	ef: (e: Lift<A | B | C | D, E>) => F,
+	fg: (f: Lift<A | B | C | D | E, F>) => G,
+	gh: (g: Lift<A | B | C | D | E | F, G>) => H,
+	hi: (h: Lift<A | B | C | D | E | F | G, H>) => I,
+	ij: (i: Lift<A | B | C | D | E | F | G | H, I>) => J,
+	jk: (j: Lift<A | B | C | D | E | F | G | H | I, J>) => K,
+	kl: (k: Lift<A | B | C | D | E | F | G | H | I | J, K>) => L,
+	lm: (l: Lift<A | B | C | D | E | F | G | H | I | J | K, L>) => M,
+	mn: (m: Lift<A | B | C | D | E | F | G | H | I | J | K | L, M>) => N,
+	no: (n: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M, N>) => O,
+): Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N, O>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: Lift<A, B>) => C,
+	cd: (c: Lift<A | B, C>) => D,
+	de: (d: Lift<A | B | C, D>) => E,
+	ef: (e: Lift<A | B | C | D, E>) => F,
+	fg: (f: Lift<A | B | C | D | E, F>) => G,
+	gh: (g: Lift<A | B | C | D | E | F, G>) => H,
+	hi: (h: Lift<A | B | C | D | E | F | G, H>) => I,
+	ij: (i: Lift<A | B | C | D | E | F | G | H, I>) => J,
+	jk: (j: Lift<A | B | C | D | E | F | G | H | I, J>) => K,
+	kl: (k: Lift<A | B | C | D | E | F | G | H | I | J, K>) => L,
+	lm: (l: Lift<A | B | C | D | E | F | G | H | I | J | K, L>) => M,
+	mn: (m: Lift<A | B | C | D | E | F | G | H | I | J | K | L, M>) => N,
+	no: (n: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M, N>) => O,
+	op: (o: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N, O>) => P,
+): Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O, P>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: Lift<A, B>) => C,
+	cd: (c: Lift<A | B, C>) => D,
+	de: (d: Lift<A | B | C, D>) => E,
+	ef: (e: Lift<A | B | C | D, E>) => F,
+	fg: (f: Lift<A | B | C | D | E, F>) => G,
+	gh: (g: Lift<A | B | C | D | E | F, G>) => H,
+	hi: (h: Lift<A | B | C | D | E | F | G, H>) => I,
+	ij: (i: Lift<A | B | C | D | E | F | G | H, I>) => J,
+	jk: (j: Lift<A | B | C | D | E | F | G | H | I, J>) => K,
+	kl: (k: Lift<A | B | C | D | E | F | G | H | I | J, K>) => L,
+	lm: (l: Lift<A | B | C | D | E | F | G | H | I | J | K, L>) => M,
+	mn: (m: Lift<A | B | C | D | E | F | G | H | I | J | K | L, M>) => N,
+	no: (n: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M, N>) => O,
+	op: (o: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N, O>) => P,
+	pq: (p: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O, P>) => Q,
+): Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O | P, Q>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: Lift<A, B>) => C,
+	cd: (c: Lift<A | B, C>) => D,
+	de: (d: Lift<A | B | C, D>) => E,
+	ef: (e: Lift<A | B | C | D, E>) => F,
+	fg: (f: Lift<A | B | C | D | E, F>) => G,
+	gh: (g: Lift<A | B | C | D | E | F, G>) => H,
+	hi: (h: Lift<A | B | C | D | E | F | G, H>) => I,
+	ij: (i: Lift<A | B | C | D | E | F | G | H, I>) => J,
+	jk: (j: Lift<A | B | C | D | E | F | G | H | I, J>) => K,
+	kl: (k: Lift<A | B | C | D | E | F | G | H | I | J, K>) => L,
+	lm: (l: Lift<A | B | C | D | E | F | G | H | I | J | K, L>) => M,
+	mn: (m: Lift<A | B | C | D | E | F | G | H | I | J | K | L, M>) => N,
+	no: (n: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M, N>) => O,
+	op: (o: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N, O>) => P,
+	pq: (p: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O, P>) => Q,
+	qr: (q: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O | P, Q>) => R,
+): Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O | P | Q, R>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: Lift<A, B>) => C,
+	cd: (c: Lift<A | B, C>) => D,
+	de: (d: Lift<A | B | C, D>) => E,
+	ef: (e: Lift<A | B | C | D, E>) => F,
+	fg: (f: Lift<A | B | C | D | E, F>) => G,
+	gh: (g: Lift<A | B | C | D | E | F, G>) => H,
+	hi: (h: Lift<A | B | C | D | E | F | G, H>) => I,
+	ij: (i: Lift<A | B | C | D | E | F | G | H, I>) => J,
+	jk: (j: Lift<A | B | C | D | E | F | G | H | I, J>) => K,
+	kl: (k: Lift<A | B | C | D | E | F | G | H | I | J, K>) => L,
+	lm: (l: Lift<A | B | C | D | E | F | G | H | I | J | K, L>) => M,
+	mn: (m: Lift<A | B | C | D | E | F | G | H | I | J | K | L, M>) => N,
+	no: (n: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M, N>) => O,
+	op: (o: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N, O>) => P,
+	pq: (p: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O, P>) => Q,
+	qr: (q: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O | P, Q>) => R,
+	rs: (r: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O | P | Q, R>) => S,
+): Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O | P | Q | R, S>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S, T>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: Lift<A, B>) => C,
+	cd: (c: Lift<A | B, C>) => D,
+	de: (d: Lift<A | B | C, D>) => E,
+	ef: (e: Lift<A | B | C | D, E>) => F,
+	fg: (f: Lift<A | B | C | D | E, F>) => G,
+	gh: (g: Lift<A | B | C | D | E | F, G>) => H,
+	hi: (h: Lift<A | B | C | D | E | F | G, H>) => I,
+	ij: (i: Lift<A | B | C | D | E | F | G | H, I>) => J,
+	jk: (j: Lift<A | B | C | D | E | F | G | H | I, J>) => K,
+	kl: (k: Lift<A | B | C | D | E | F | G | H | I | J, K>) => L,
+	lm: (l: Lift<A | B | C | D | E | F | G | H | I | J | K, L>) => M,
+	mn: (m: Lift<A | B | C | D | E | F | G | H | I | J | K | L, M>) => N,
+	no: (n: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M, N>) => O,
+	op: (o: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N, O>) => P,
+	pq: (p: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O, P>) => Q,
+	qr: (q: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O | P, Q>) => R,
+	rs: (r: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O | P | Q, R>) => S,
+	st: (s: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O | P | Q | R, S>) => T,
+): Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O | P | Q | R | S, T>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S, T, U>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: Lift<A, B>) => C,
+	cd: (c: Lift<A | B, C>) => D,
+	de: (d: Lift<A | B | C, D>) => E,
+	ef: (e: Lift<A | B | C | D, E>) => F,
+	fg: (f: Lift<A | B | C | D | E, F>) => G,
+	gh: (g: Lift<A | B | C | D | E | F, G>) => H,
+	hi: (h: Lift<A | B | C | D | E | F | G, H>) => I,
+	ij: (i: Lift<A | B | C | D | E | F | G | H, I>) => J,
+	jk: (j: Lift<A | B | C | D | E | F | G | H | I, J>) => K,
+	kl: (k: Lift<A | B | C | D | E | F | G | H | I | J, K>) => L,
+	lm: (l: Lift<A | B | C | D | E | F | G | H | I | J | K, L>) => M,
+	mn: (m: Lift<A | B | C | D | E | F | G | H | I | J | K | L, M>) => N,
+	no: (n: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M, N>) => O,
+	op: (o: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N, O>) => P,
+	pq: (p: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O, P>) => Q,
+	qr: (q: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O | P, Q>) => R,
+	rs: (r: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O | P | Q, R>) => S,
+	st: (s: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O | P | Q | R, S>) => T,
+	tu: (t: Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O | P | Q | R | S, T>) => U,
+): Lift<A | B | C | D | E | F | G | H | I | J | K | L | M | N | O | P | Q | R | S | T, U>;
+export function pipe(value: unknown, ...steps: ((value: never) => unknown)[]): unknown {
+	let current = value;
+	let async = brandOf(current, resultAsyncBrand) === true;
+	for (const step of steps) {
+		current = (step as (value: unknown) => unknown)(current);
+		if (brandOf(current, resultAsyncBrand) === true) {
+			async = true;
+		} else if (async && brandOf(current, resultBrand) !== undefined) {
+			// Keeps the pipeline asynchronous, as the types promise, when a custom step returns a
+			// synchronous `Result`.
+			current = (current as Result<unknown, unknown>).toAsync();
+		}
+	}
+
+	return current;
+}
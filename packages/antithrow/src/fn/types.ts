@@ -0,0 +1,16 @@
+import type { Result } from "../result.js";
+import type { ResultAsync } from "../result-async.js";
+
+/**
+ * The type of `Out` once a `ResultAsync` has been through the pipeline: a synchronous `Result`
+ * becomes a `ResultAsync`, whose value is awaited like `ResultAsync.map` awaits it.
+ */
+type ToAsync<Out> = [Out] extends [Result<infer T, infer E>] ? ResultAsync<Awaited<T>, E> : Out;
+
+/**
+ * The type an operator returns when given any of `In`: `Out` for `Result`s, or `Out` made
+ * asynchronous if `In` includes a `ResultAsync`.
+ */
+export type Lift<In, Out> = [Extract<In, ResultAsync<unknown, unknown>>] extends [never]
+	? Out
+	: ToAsync<Out>;
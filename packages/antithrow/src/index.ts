@@ -1,3 +1,13 @@
 export { chain } from "./chain.js";
+export { ContextError, formatErrorChain } from "./context.js";
+export { ResultJSONError } from "./json.js";
+export { Matcher } from "./match.js";
+export { None, NoneError, none, Option, Some, some } from "./option.js";
+export { ReleaseError } from "./release-error.js";
 export { Err, err, Ok, ok, Result } from "./result.js";
 export { errAsync, okAsync, ResultAsync } from "./result-async.js";
+export { ResultStream } from "./result-stream.js";
+export { Backoff, RetryError } from "./retry.js";
+export { TaggedError } from "./tagged-error.js";
+export { Task } from "./task.js";
+export { UnwrapError } from "./unwrap-error.js";
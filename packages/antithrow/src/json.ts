@@ -0,0 +1,105 @@
+/**
+ * The JSON shape of an `Error` inside a serialized result. Keeps the error's `name`, `message`,
+ * `cause` and own enumerable fields (such as a `_tag`), but not its stack.
+ */
+interface ErrorJSON {
+	/** Marks the object as a serialized error, so `Result.fromJSON` revives it. */
+	readonly $error: true;
+	readonly name: string;
+	readonly message: string;
+	readonly cause?: unknown;
+	readonly [field: string]: unknown;
+}
+
+/**
+ * The JSON shape of a value inside a serialized result: an {@link ErrorJSON} for errors, or the
+ * value itself.
+ */
+type Serialized<T> = T extends Error ? ErrorJSON : T;
+
+/**
+ * The JSON shape of a `Result`, as produced by `toJSON` and accepted by `Result.fromJSON`.
+ *
+ * @template T - The type of the success value.
+ * @template E - The type of the error value.
+ */
+export type ResultJSON<T, E> =
+	| { readonly ok: true; readonly value: Serialized<T> }
+	| { readonly ok: false; readonly error: Serialized<E> };
+
+/**
+ * The error produced by `Result.fromJSON` when the data is not a serialized result, or when its
+ * value or error is rejected by the given validator. In that case, the validator's error is
+ * the `cause`.
+ *
+ * @example
+ * ```ts
+ * const result = Result.fromJSON({ status: "ok" });
+ * result.unwrapErr(); // ResultJSONError: Expected a serialized Result
+ * ```
+ */
+export class ResultJSONError extends Error {
+	override readonly name = "ResultJSONError";
+}
+
+/**
+ * Converts an `Error`, and its chain of causes, into its JSON shape. Other values are returned
+ * as is.
+ */
+export function serialize<T>(value: T, seen = new Set<unknown>()): Serialized<T> {
+	if (!(value instanceof Error)) {
+		return value as Serialized<T>;
+	}
+
+	seen.add(value);
+	const { cause, ...fields } = value as Error & Record<string, unknown>;
+	const json: ErrorJSON = { $error: true, ...fields, name: value.name, message: value.message };
+	// A cycle can't be represented in JSON, so drop the cause that closes it.
+	if (!("cause" in value) || seen.has(cause)) {
+		return json as Serialized<T>;
+	}
+
+	return { ...json, cause: serialize(cause, seen) } as Serialized<T>;
+}
+
+function isErrorJSON(value: unknown): value is ErrorJSON {
+	if (typeof value !== "object" || value === null) {
+		return false;
+	}
+
+	const { $error, name, message } = value as Partial<ErrorJSON>;
+	return $error === true && typeof name === "string" && typeof message === "string";
+}
+
+/**
+ * Fields of a serialized error that are never copied onto the revived error.
+ */
+const unsafeFields = new Set(["__proto__", "constructor", "prototype", "stack"]);
+
+/**
+ * Turns a serialized error, and its chain of causes, back into an `Error` with the same `name`,
+ * `message` and fields. Other values are returned as is.
+ */
+export function revive(value: unknown): unknown {
+	if (!isErrorJSON(value)) {
+		return value;
+	}
+
+	const { $error, name, message, cause, ...fields } = value;
+	const error = new Error(message, "cause" in value ? { cause: revive(cause) } : undefined);
+	error.name = name;
+	for (const [key, field] of Object.entries(fields)) {
+		// The data may come from untrusted input, so never set these through assignment: a
+		// `__proto__` key would replace the error's prototype.
+		if (!unsafeFields.has(key)) {
+			Object.defineProperty(error, key, {
+				value: field,
+				writable: true,
+				enumerable: true,
+				configurable: true,
+			});
+		}
+	}
+
+	return error;
+}
@@ -0,0 +1,218 @@
+import { describe, expect, expectTypeOf, test } from "bun:test";
+import { err, ok, Result } from "./result.js";
+import type { ResultAsync } from "./result-async.js";
+import { errAsync, okAsync } from "./result-async.js";
+
+type ApiError =
+	| { type: "validation"; message: string }
+	| { type: "not_found"; resource: string }
+	| { type: "unauthorized" }
+	| { type: "network"; cause: Error };
+
+type NetworkError = Extract<ApiError, { type: "network" }>;
+
+const isNetworkError = (error: ApiError): error is NetworkError => error.type === "network";
+
+function fail(error: ApiError): Result<number, ApiError> {
+	return err(error);
+}
+
+function describeResult(result: Result<number, ApiError>): string {
+	return Result.match(result)
+		.ok((value) => `value ${value}`)
+		.err({ type: "validation" }, (error) => `invalid: ${error.message}`)
+		.err({ type: "not_found" }, (error) => `${error.resource} not found`)
+		.err({ type: "unauthorized" }, () => "unauthorized")
+		.err(isNetworkError, (error) => `network: ${error.cause.message}`)
+		.exhaustive();
+}
+
+describe("Result.match", () => {
+	describe("exhaustive", () => {
+		test("calls the ok handler with the value", () => {
+			expect(describeResult(ok(1))).toBe("value 1");
+		});
+
+		test("calls the handler of the matching pattern", () => {
+			expect(describeResult(fail({ type: "validation", message: "bad email" }))).toBe(
+				"invalid: bad email",
+			);
+			expect(describeResult(fail({ type: "not_found", resource: "user" }))).toBe("user not found");
+			expect(describeResult(fail({ type: "unauthorized" }))).toBe("unauthorized");
+		});
+
+		test("calls the handler of the matching guard", () => {
+			expect(describeResult(fail({ type: "network", cause: new Error("offline") }))).toBe(
+				"network: offline",
+			);
+		});
+
+		test("uses the first matching handler", () => {
+			const result = Result.match(err<number, string>("a"))
+				.ok(() => "ok")
+				.err(
+					(error) => error.length === 1,
+					() => "first",
+				)
+				.err("a", () => "second")
+				.otherwise(() => "fallback");
+			expect(result).toBe("first");
+		});
+
+		test("matches patterns on every given property", () => {
+			const result = err<number, { status: number; retry: boolean }>({ status: 503, retry: false });
+			const matched = Result.match(result)
+				.ok(() => "ok")
+				.err({ status: 503, retry: true }, () => "retry")
+				.err({ status: 503 }, () => "unavailable")
+				.otherwise(() => "other");
+			expect(matched).toBe("unavailable");
+		});
+
+		test("matches primitive errors by equality", () => {
+			const parse = (input: string): Result<number, "empty" | "nan"> =>
+				input ? err("nan") : err("empty");
+			const message = (input: string) =>
+				Result.match(parse(input))
+					.ok(String)
+					.err("empty", () => "nothing to parse")
+					.err("nan", () => "not a number")
+					.exhaustive();
+			expect(message("")).toBe("nothing to parse");
+			expect(message("x")).toBe("not a number");
+		});
+
+		test("throws if no handler matches at runtime", () => {
+			const unknown = { type: "unknown" } as unknown as ApiError;
+			expect(() => describeResult(fail(unknown))).toThrow(
+				'No handler matched the error: { type: "unknown" }',
+			);
+		});
+	});
+
+	describe("otherwise", () => {
+		test("handles the errors not matched earlier", () => {
+			const result = Result.match(fail({ type: "unauthorized" }))
+				.ok(() => "ok")
+				.err({ type: "not_found" }, () => "missing")
+				.otherwise((error) => error.type);
+			expect(result).toBe("unauthorized");
+		});
+
+		test("is not called for an Ok", () => {
+			let calls = 0;
+			const result = Result.match(ok<number, ApiError>(1))
+				.ok((value) => value * 2)
+				.otherwise(() => calls++);
+			expect(result).toBe(2);
+			expect(calls).toBe(0);
+		});
+	});
+
+	describe("ResultAsync", () => {
+		test("resolves to the ok handler's value", async () => {
+			const result = Result.match(okAsync<number, ApiError>(1))
+				.ok((value) => value + 1)
+				.otherwise(() => 0);
+			expect(result).toBeInstanceOf(Promise);
+			expect(await result).toBe(2);
+		});
+
+		test("resolves to the matching error handler's value", async () => {
+			const status = await Result.match(
+				errAsync<number, ApiError>({ type: "not_found", resource: "post" }),
+			)
+				.ok(() => 200)
+				.err({ type: "validation" }, () => 400)
+				.err({ type: "not_found" }, () => 404)
+				.err({ type: "unauthorized" }, () => 401)
+				.err(isNetworkError, () => 503)
+				.exhaustive();
+			expect(status).toBe(404);
+		});
+	});
+
+	test("builders are immutable", () => {
+		const base = Result.match(fail({ type: "unauthorized" })).ok(() => "ok");
+		base.err({ type: "unauthorized" }, () => "handled");
+		expect(base.otherwise(() => "fallback")).toBe("fallback");
+	});
+
+	describe("types", () => {
+		test("pattern handlers receive the matched variant", () => {
+			Result.match(fail({ type: "unauthorized" }))
+				.ok(() => 0)
+				.err({ type: "not_found" }, (error) => {
+					expectTypeOf(error).toEqualTypeOf<{ type: "not_found"; resource: string }>();
+					return 0;
+				})
+				.otherwise((error) => {
+					expectTypeOf(error).toEqualTypeOf<Exclude<ApiError, { type: "not_found" }>>();
+					return 0;
+				});
+		});
+
+		test("guard handlers receive the narrowed error", () => {
+			Result.match(fail({ type: "unauthorized" }))
+				.ok(() => 0)
+				.err(isNetworkError, (error) => {
+					expectTypeOf(error).toEqualTypeOf<NetworkError>();
+					return 0;
+				})
+				.otherwise(() => 0);
+		});
+
+		test("exhaustive returns the union of the handlers' results", () => {
+			const result = Result.match(err<number, "a" | "b">("a"))
+				.ok((value) => value)
+				.err("a", () => "a" as const)
+				.err("b", () => true)
+				.exhaustive();
+			expectTypeOf(result).toEqualTypeOf<number | "a" | boolean>();
+		});
+
+		test("exhaustive returns a promise for a ResultAsync", () => {
+			const async: ResultAsync<number, "a"> = okAsync(1);
+			const result = Result.match(async)
+				.ok((value) => value)
+				.err("a", () => 0)
+				.exhaustive();
+			expectTypeOf(result).toEqualTypeOf<Promise<number>>();
+		});
+
+		test("exhaustive requires every error variant to be handled", () => {
+			const matcher = Result.match(fail({ type: "unauthorized" }))
+				.ok(() => 0)
+				.err({ type: "validation" }, () => 0)
+				.err({ type: "not_found" }, () => 0)
+				.err({ type: "unauthorized" }, () => 0);
+			// @ts-expect-error - network errors are not handled
+			expect(matcher.exhaustive()).toBe(0);
+		});
+
+		test("exhaustive requires the ok value to be handled", () => {
+			const matcher = Result.match(err<number, "a">("a")).err("a", () => 0);
+			// @ts-expect-error - the ok value is not handled
+			expect(matcher.exhaustive()).toBe(0);
+		});
+
+		test("plain predicates do not narrow the error", () => {
+			const matcher = Result.match(err<number, "a" | "b">("a"))
+				.ok(() => 0)
+				.err(
+					(error) => error === "a",
+					() => 0,
+				);
+			// @ts-expect-error - a plain predicate leaves every variant unhandled
+			expect(matcher.exhaustive()).toBe(0);
+		});
+
+		test("patterns must fit the error type", () => {
+			Result.match(fail({ type: "unauthorized" }))
+				.ok(() => 0)
+				// @ts-expect-error - "gone" is not an error type
+				.err({ type: "gone" }, () => 0)
+				.otherwise(() => 0);
+		});
+	});
+});
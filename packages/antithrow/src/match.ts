@@ -0,0 +1,236 @@
+import { brandOf, resultAsyncBrand } from "./brand.js";
+import { display } from "./display.js";
+import type { Result } from "./result.js";
+import type { ResultAsync } from "./result-async.js";
+
+/**
+ * A structural pattern for an error: a literal to compare with, or an object whose properties
+ * must all be equal to the error's.
+ */
+type Pattern<E> = Partial<E>;
+
+/**
+ * The errors matched by pattern `P`: the union members it selects, or, if it selects none
+ * (for example `{ status: 404 }` against `{ status: number }`), the errors narrowed by it.
+ */
+type Matched<E, P> = [Extract<E, P>] extends [never] ? E & P : Extract<E, P>;
+
+/**
+ * The result of running a matcher: the handlers' result, or a promise of it when matching a
+ * `ResultAsync`.
+ */
+type MatchOutput<U, Async extends boolean> = Async extends true ? Promise<U> : U;
+
+interface ErrCase {
+	matches: (error: unknown) => boolean;
+	handle: (error: unknown) => unknown;
+}
+
+function matchesPattern(error: unknown, pattern: unknown): boolean {
+	if (typeof pattern !== "object" || pattern === null) {
+		return Object.is(error, pattern);
+	}
+
+	if (typeof error !== "object" || error === null) {
+		return false;
+	}
+
+	return Object.entries(pattern).every(([key, value]) =>
+		Object.is((error as Record<string, unknown>)[key], value),
+	);
+}
+
+/**
+ * A fluent, exhaustive matcher over a `Result` or `ResultAsync`, created by `Result.match`.
+ *
+ * Handle the `Ok` value with `ok`, and the error union piece by piece with `err`, using
+ * structural patterns or predicates. Each handled variant is removed from the union, so
+ * `exhaustive` only compiles once every variant and the `Ok` value are handled.
+ *
+ * @template T - The type of the success value.
+ * @template U - The union of the handlers' return types so far.
+ * @template HasOk - Whether the `Ok` value is handled.
+ * @template E - The error variants not handled yet.
+ * @template Async - Whether the matched value is a `ResultAsync`.
+ */
+export class Matcher<T, U, HasOk extends boolean, E, Async extends boolean> {
+	private readonly input: Result<unknown, unknown> | ResultAsync<unknown, unknown>;
+	private readonly onOk: ((value: T) => unknown) | undefined;
+	private readonly cases: readonly ErrCase[];
+	/** Only tracks in the type whether the `Ok` value is handled. */
+	private declare readonly handlesOk: HasOk;
+
+	/**
+	 * Creates a new Matcher. Use `Result.match` instead.
+	 *
+	 * @param input - The result to match.
+	 * @param onOk - The handler for the `Ok` value, if any.
+	 * @param cases - The handlers for errors, in order.
+	 */
+	constructor(
+		input: Result<unknown, unknown> | ResultAsync<unknown, unknown>,
+		onOk?: (value: T) => unknown,
+		cases: readonly ErrCase[] = [],
+	) {
+		this.input = input;
+		this.onOk = onOk;
+		this.cases = cases;
+	}
+
+	/**
+	 * Handles the `Ok` value.
+	 *
+	 * @example
+	 * ```ts
+	 * Result.match(result).ok((user) => user.name);
+	 * ```
+	 *
+	 * @template R - The return type of the handler.
+	 *
+	 * @param fn - The function to call with the `Ok` value.
+	 *
+	 * @returns A matcher with the `Ok` value handled.
+	 */
+	ok<R>(fn: (value: T) => R): Matcher<T, U | R, true, E, Async> {
+		return new Matcher(this.input, fn, this.cases);
+	}
+
+	/**
+	 * Handles the errors narrowed by a type guard, removing them from the unhandled variants.
+	 *
+	 * @example
+	 * ```ts
+	 * Result.match(result).err(isNetworkError, (error) => retryLater(error));
+	 * ```
+	 *
+	 * @template C - The errors selected by the guard.
+	 * @template R - The return type of the handler.
+	 *
+	 * @param guard - Selects the errors to handle.
+	 * @param fn - The function to call with a selected error.
+	 *
+	 * @returns A matcher with the selected errors handled.
+	 */
+	err<C extends E, R>(
+		guard: (error: E) => error is C,
+		fn: (error: C) => R,
+	): Matcher<T, U | R, HasOk, Exclude<E, C>, Async>;
+	/**
+	 * Handles the errors matching a structural pattern, removing them from the unhandled
+	 * variants. An object pattern matches errors whose properties are all equal (`Object.is`)
+	 * to its own; any other pattern matches an equal error.
+	 *
+	 * @example
+	 * ```ts
+	 * Result.match(result).err({ type: "not_found" }, (error) => `${error.resource} not found`);
+	 * Result.match(parsed).err("empty", () => "Nothing to parse");
+	 * ```
+	 *
+	 * @template P - The pattern.
+	 * @template R - The return type of the handler.
+	 *
+	 * @param pattern - The pattern the errors must match.
+	 * @param fn - The function to call with a matching error.
+	 *
+	 * @returns A matcher with the matching errors handled.
+	 */
+	err<const P extends Pattern<E>, R>(
+		pattern: P,
+		fn: (error: Matched<E, P>) => R,
+	): Matcher<T, U | R, HasOk, Exclude<E, P>, Async>;
+	/**
+	 * Handles the errors accepted by a predicate. A plain predicate doesn't narrow the type, so
+	 * the errors it handles still count as unhandled; follow it with `otherwise` or with handlers
+	 * for every variant.
+	 *
+	 * @example
+	 * ```ts
+	 * Result.match(result).err((error) => error.retryable, () => "Try again");
+	 * ```
+	 *
+	 * @template R - The return type of the handler.
+	 *
+	 * @param predicate - Selects the errors to handle.
+	 * @param fn - The function to call with a selected error.
+	 *
+	 * @returns A matcher with the selected errors handled.
+	 */
+	err<R>(predicate: (error: E) => boolean, fn: (error: E) => R): Matcher<T, U | R, HasOk, E, Async>;
+	err<R>(selector: unknown, fn: (error: never) => R): Matcher<T, U | R, HasOk, unknown, Async> {
+		const matches =
+			typeof selector === "function"
+				? (selector as (error: unknown) => boolean)
+				: (error: unknown) => matchesPattern(error, selector);
+		const handle = fn as (error: unknown) => unknown;
+
+		return new Matcher(this.input, this.onOk, [...this.cases, { matches, handle }]);
+	}
+
+	/**
+	 * Runs the matcher once every error variant and the `Ok` value are handled. Leaving any of
+	 * them unhandled is a compile error.
+	 *
+	 * @example
+	 * ```ts
+	 * const status = Result.match(result)
+	 *   .ok(() => 200)
+	 *   .err({ type: "not_found" }, () => 404)
+	 *   .err({ type: "unauthorized" }, () => 401)
+	 *   .exhaustive();
+	 * ```
+	 *
+	 * @returns The return value of the matching handler, or a promise of it for a `ResultAsync`.
+	 *
+	 * @throws {Error} If no handler matches the error, which the types rule out unless they were
+	 * bypassed.
+	 */
+	exhaustive(this: Matcher<T, U, true, never, Async>): MatchOutput<U, Async> {
+		return this.run(undefined) as MatchOutput<U, Async>;
+	}
+
+	/**
+	 * Runs the matcher, handling every error not matched by an earlier `err` with `fn`. The `Ok`
+	 * value must be handled.
+	 *
+	 * @example
+	 * ```ts
+	 * const message = Result.match(result)
+	 *   .ok(() => "Saved")
+	 *   .err({ type: "validation" }, (error) => error.message)
+	 *   .otherwise(() => "Something went wrong");
+	 * ```
+	 *
+	 * @template R - The return type of the fallback.
+	 *
+	 * @param fn - The function to call with an unmatched error.
+	 *
+	 * @returns The return value of the matching handler, or a promise of it for a `ResultAsync`.
+	 */
+	otherwise<R>(
+		this: Matcher<T, U, true, E, Async>,
+		fn: (error: E) => R,
+	): MatchOutput<U | R, Async> {
+		return this.run(fn as (error: unknown) => unknown) as MatchOutput<U | R, Async>;
+	}
+
+	private run(fallback: ((error: unknown) => unknown) | undefined): unknown {
+		const settle = (result: Result<unknown, unknown>): unknown => {
+			if (result.isOk()) {
+				return (this.onOk as (value: unknown) => unknown)(result.value);
+			}
+
+			const handle = this.cases.find(({ matches }) => matches(result.error))?.handle ?? fallback;
+			if (!handle) {
+				throw new Error(`No handler matched the error: ${display(result.error)}`);
+			}
+
+			return handle(result.error);
+		};
+
+		if (brandOf(this.input, resultAsyncBrand) === true) {
+			return (this.input as ResultAsync<unknown, unknown>).then(settle);
+		}
+
+		return settle(this.input as Result<unknown, unknown>);
+	}
+}
@@ -0,0 +1,432 @@
+import { describe, expect, expectTypeOf, test } from "bun:test";
+import { chain } from "./chain.js";
+import type { None, Some } from "./option.js";
+import { NoneError, none, Option, some } from "./option.js";
+import type { Result } from "./result.js";
+import { err, ok } from "./result.js";
+
+describe("Option", () => {
+	describe("some", () => {
+		test("creates a Some value", () => {
+			const option = some(42);
+			expect(option.isSome()).toBe(true);
+			expect(option.isNone()).toBe(false);
+			expect(option.value).toBe(42);
+		});
+	});
+
+	describe("none", () => {
+		test("creates a None value", () => {
+			const option = none();
+			expect(option.isSome()).toBe(false);
+			expect(option.isNone()).toBe(true);
+		});
+
+		test("returns a shared instance", () => {
+			expect<unknown>(none<number>()).toBe(none<string>());
+		});
+	});
+
+	describe("isSomeAnd", () => {
+		test("returns true for Some when predicate passes", () => {
+			expect(some(42).isSomeAnd((x) => x > 10)).toBe(true);
+		});
+
+		test("returns false for Some when predicate fails", () => {
+			expect(some(5).isSomeAnd((x) => x > 10)).toBe(false);
+		});
+
+		test("returns false for None", () => {
+			expect(none<number>().isSomeAnd((x) => x > 10)).toBe(false);
+		});
+	});
+
+	describe("unwrap", () => {
+		test("returns value for Some", () => {
+			expect(some(42).unwrap()).toBe(42);
+		});
+
+		test("throws for None", () => {
+			expect(() => none().unwrap()).toThrow("Called unwrap on a None value");
+		});
+	});
+
+	describe("expect", () => {
+		test("returns value for Some", () => {
+			expect(some(42).expect("should exist")).toBe(42);
+		});
+
+		test("throws with message for None", () => {
+			expect(() => none().expect("should exist")).toThrow("should exist");
+		});
+	});
+
+	describe("unwrapOr", () => {
+		test("returns value for Some", () => {
+			expect(some(42).unwrapOr(0)).toBe(42);
+		});
+
+		test("returns default for None", () => {
+			expect(none<number>().unwrapOr(0)).toBe(0);
+		});
+	});
+
+	describe("unwrapOrElse", () => {
+		test("returns value for Some", () => {
+			expect(some(42).unwrapOrElse(() => 0)).toBe(42);
+		});
+
+		test("computes default for None", () => {
+			expect(none<number>().unwrapOrElse(() => 7)).toBe(7);
+		});
+	});
+
+	describe("map", () => {
+		test("transforms Some value", () => {
+			expect(
+				some(2)
+					.map((x) => x * 2)
+					.unwrap(),
+			).toBe(4);
+		});
+
+		test("does not call fn for None", () => {
+			let called = false;
+			const option = none<number>().map((x) => {
+				called = true;
+				return x * 2;
+			});
+			expect(option.isNone()).toBe(true);
+			expect(called).toBe(false);
+		});
+	});
+
+	describe("mapOr", () => {
+		test("transforms Some value", () => {
+			expect(some(2).mapOr(0, (x) => x * 2)).toBe(4);
+		});
+
+		test("returns default for None", () => {
+			expect(none<number>().mapOr(0, (x) => x * 2)).toBe(0);
+		});
+	});
+
+	describe("mapOrElse", () => {
+		test("transforms Some value", () => {
+			expect(
+				some(2).mapOrElse(
+					() => 0,
+					(x) => x * 2,
+				),
+			).toBe(4);
+		});
+
+		test("computes default for None", () => {
+			expect(
+				none<number>().mapOrElse(
+					() => -1,
+					(x) => x * 2,
+				),
+			).toBe(-1);
+		});
+	});
+
+	describe("andThen", () => {
+		test("chains Some values", () => {
+			expect(
+				some(2)
+					.andThen((x) => some(x * 2))
+					.unwrap(),
+			).toBe(4);
+		});
+
+		test("can return None", () => {
+			expect(
+				some(2)
+					.andThen(() => none())
+					.isNone(),
+			).toBe(true);
+		});
+
+		test("propagates None", () => {
+			expect(
+				none<number>()
+					.andThen((x) => some(x * 2))
+					.isNone(),
+			).toBe(true);
+		});
+	});
+
+	describe("and", () => {
+		test("returns the other option for Some", () => {
+			expect(some(2).and(some("next")).unwrap()).toBe("next");
+		});
+
+		test("returns None for None", () => {
+			expect(none().and(some("next")).isNone()).toBe(true);
+		});
+	});
+
+	describe("or", () => {
+		test("returns self for Some", () => {
+			expect(some(2).or(some(1)).unwrap()).toBe(2);
+		});
+
+		test("returns the other option for None", () => {
+			expect(none<number>().or(some(1)).unwrap()).toBe(1);
+		});
+	});
+
+	describe("orElse", () => {
+		test("returns self for Some", () => {
+			expect(
+				some(2)
+					.orElse(() => some(0))
+					.unwrap(),
+			).toBe(2);
+		});
+
+		test("calls fn for None", () => {
+			expect(
+				none<number>()
+					.orElse(() => some(0))
+					.unwrap(),
+			).toBe(0);
+		});
+	});
+
+	describe("filter", () => {
+		test("keeps Some when predicate passes", () => {
+			expect(
+				some(42)
+					.filter((x) => x > 10)
+					.unwrap(),
+			).toBe(42);
+		});
+
+		test("returns None when predicate fails", () => {
+			expect(
+				some(5)
+					.filter((x) => x > 10)
+					.isNone(),
+			).toBe(true);
+		});
+
+		test("returns None for None", () => {
+			expect(
+				none<number>()
+					.filter(() => true)
+					.isNone(),
+			).toBe(true);
+		});
+	});
+
+	describe("match", () => {
+		test("calls some handler for Some", () => {
+			const matched = some(42).match({
+				some: (v) => `value: ${v}`,
+				none: () => "nothing",
+			});
+			expect(matched).toBe("value: 42");
+		});
+
+		test("calls none handler for None", () => {
+			const matched = none<number>().match({
+				some: (v) => `value: ${v}`,
+				none: () => "nothing",
+			});
+			expect(matched).toBe("nothing");
+		});
+	});
+
+	describe("inspect", () => {
+		test("calls fn for Some and returns the same option", () => {
+			let seen: number | undefined;
+			const option = some(42);
+			expect(
+				option.inspect((x) => {
+					seen = x;
+				}),
+			).toBe(option);
+			expect(seen).toBe(42);
+		});
+
+		test("does not call fn for None", () => {
+			let called = false;
+			none().inspect(() => {
+				called = true;
+			});
+			expect(called).toBe(false);
+		});
+	});
+
+	describe("flatten", () => {
+		test("flattens Some(Some)", () => {
+			expect(some(some(42)).flatten().unwrap()).toBe(42);
+		});
+
+		test("flattens Some(None)", () => {
+			expect(some(none()).flatten().isNone()).toBe(true);
+		});
+
+		test("flattens None", () => {
+			expect(none<Option<number>>().flatten().isNone()).toBe(true);
+		});
+	});
+
+	describe("okOr", () => {
+		test("returns Ok for Some", () => {
+			expect(some(42).okOr("missing").unwrap()).toBe(42);
+		});
+
+		test("returns Err for None", () => {
+			expect(none().okOr("missing").unwrapErr()).toBe("missing");
+		});
+	});
+
+	describe("okOrElse", () => {
+		test("returns Ok for Some without calling fn", () => {
+			let called = false;
+			const result = some(42).okOrElse(() => {
+				called = true;
+				return "missing";
+			});
+			expect(result.unwrap()).toBe(42);
+			expect(called).toBe(false);
+		});
+
+		test("returns computed Err for None", () => {
+			expect(
+				none()
+					.okOrElse(() => "missing")
+					.unwrapErr(),
+			).toBe("missing");
+		});
+	});
+
+	describe("transpose", () => {
+		test("maps Some(Ok) to Ok(Some)", () => {
+			const result = some(ok(42)).transpose();
+			expect(result.unwrap().unwrap()).toBe(42);
+		});
+
+		test("maps Some(Err) to Err", () => {
+			const result = some(err("oops")).transpose();
+			expect(result.unwrapErr()).toBe("oops");
+		});
+
+		test("maps None to Ok(None)", () => {
+			const result = none<Result<number, string>>().transpose();
+			expect(result.unwrap().isNone()).toBe(true);
+		});
+	});
+
+	describe("Option.fromNullable", () => {
+		test("returns Some for a present value", () => {
+			expect(Option.fromNullable(42).unwrap()).toBe(42);
+		});
+
+		test("returns Some for falsy values", () => {
+			expect(Option.fromNullable(0).unwrap()).toBe(0);
+			expect(Option.fromNullable("").unwrap()).toBe("");
+			expect(Option.fromNullable(false).unwrap()).toBe(false);
+		});
+
+		test("returns None for null and undefined", () => {
+			expect(Option.fromNullable(null).isNone()).toBe(true);
+			expect(Option.fromNullable(undefined).isNone()).toBe(true);
+		});
+	});
+
+	describe("chain", () => {
+		test("unwraps Some with yield*", () => {
+			const result = chain(function* () {
+				const a = yield* some(1);
+				const b = yield* some(2);
+				return a + b;
+			});
+			expect(result.unwrap()).toBe(3);
+		});
+
+		test("short-circuits on None with NoneError", () => {
+			const result = chain(function* () {
+				const a = yield* none<number>();
+				return a;
+			});
+			expect(result.unwrapErr()).toBeInstanceOf(NoneError);
+		});
+
+		test("short-circuits on None with the error from okOr", () => {
+			const result = chain(function* () {
+				const a = yield* ok(1);
+				const b = yield* none<number>().okOr("missing");
+				return a + b;
+			});
+			expect(result.unwrapErr()).toBe("missing");
+		});
+
+		test("works in async chains", async () => {
+			const result = await chain(async function* () {
+				const a = yield* some(1);
+				const b = yield* none<number>().okOr("missing");
+				return a + b;
+			});
+			expect(result.unwrapErr()).toBe("missing");
+		});
+	});
+
+	describe("types", () => {
+		test("some returns Some<T>", () => {
+			expectTypeOf(some(42)).toEqualTypeOf<Some<number>>();
+		});
+
+		test("none returns None<never>", () => {
+			expectTypeOf(none()).toEqualTypeOf<None<never>>();
+		});
+
+		test("isSome narrows to Some", () => {
+			const find = (id: number): Option<number> => (id > 0 ? some(id) : none());
+			const option = find(1);
+			if (option.isSome()) {
+				expectTypeOf(option.value).toEqualTypeOf<number>();
+			} else {
+				expectTypeOf(option).toEqualTypeOf<None<number>>();
+			}
+		});
+
+		test("map transforms value type", () => {
+			const option: Option<number> = some(42);
+			expectTypeOf(option.map((x) => x.toString())).toEqualTypeOf<Option<string>>();
+		});
+
+		test("filter narrows with type predicate", () => {
+			const option: Option<string | number> = some(42);
+			const filtered = option.filter((v): v is number => typeof v === "number");
+			expectTypeOf(filtered).toEqualTypeOf<Option<number>>();
+		});
+
+		test("okOr returns Result<T, E>", () => {
+			const option: Option<number> = some(42);
+			expectTypeOf(option.okOr("missing" as const)).toEqualTypeOf<Result<number, "missing">>();
+		});
+
+		test("transpose returns Result<Option<T>, E>", () => {
+			const option: Option<Result<number, string>> = some(ok(42));
+			expectTypeOf(option.transpose()).toEqualTypeOf<Result<Option<number>, string>>();
+		});
+
+		test("fromNullable strips null and undefined", () => {
+			const value = new Map<string, number>().get("key");
+			expectTypeOf(Option.fromNullable(value)).toEqualTypeOf<Option<number>>();
+		});
+
+		test("chain infers NoneError from yielded options", () => {
+			const option: Option<number> = some(1);
+			const result = chain(function* () {
+				const a = yield* option;
+				return a;
+			});
+			expectTypeOf(result).toEqualTypeOf<Result<number, NoneError>>();
+		});
+	});
+});
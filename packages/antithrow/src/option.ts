@@ -0,0 +1,651 @@
+import type { SyncChainGenerator } from "./chain.js";
+import type { Result } from "./result.js";
+import { err, ok } from "./result.js";
+
+interface OptionMethods<T> {
+	/**
+	 * Type predicate for `Some`.
+	 *
+	 * @example
+	 * ```ts
+	 * if (option.isSome()) {
+	 *   console.log(option.value);
+	 * }
+	 * ```
+	 *
+	 * @returns `true` if the option is `Some`.
+	 */
+	isSome(): this is Some<T>;
+	/**
+	 * Type predicate for `None`.
+	 *
+	 * @example
+	 * ```ts
+	 * if (option.isNone()) {
+	 *   console.log("nothing here");
+	 * }
+	 * ```
+	 *
+	 * @returns `true` if the option is `None`.
+	 */
+	isNone(): this is None<T>;
+	/**
+	 * Returns `true` if the option is `Some` and the contained value satisfies the predicate.
+	 * When a type predicate is passed, narrows the option to `Some<S>`.
+	 *
+	 * @example
+	 * ```ts
+	 * some(42).isSomeAnd((x) => x > 10); // true
+	 * some(5).isSomeAnd((x) => x > 10); // false
+	 * none().isSomeAnd((x) => x > 10); // false
+	 * ```
+	 *
+	 * @param fn - The predicate to apply to the `Some` value.
+	 *
+	 * @returns `true` if `Some` and the predicate returns `true`.
+	 */
+	isSomeAnd<S extends T>(fn: (value: T) => value is S): this is Some<S>;
+	isSomeAnd(fn: (value: T) => boolean): boolean;
+
+	/**
+	 * Returns the contained `Some` value. Throws if the option is `None`.
+	 *
+	 * @example
+	 * ```ts
+	 * const value = some(42).unwrap(); // 42
+	 * const missing = none().unwrap(); // throws
+	 * ```
+	 *
+	 * @returns The contained `Some` value.
+	 */
+	unwrap(): T;
+	/**
+	 * Returns the contained `Some` value. Throws with the provided message if the option is `None`.
+	 *
+	 * @example
+	 * ```ts
+	 * const value = some(42).expect("value should exist"); // 42
+	 * const missing = none().expect("value should exist"); // throws
+	 * ```
+	 *
+	 * @param message - The message to include in the thrown error if the option is `None`.
+	 *
+	 * @returns The contained `Some` value.
+	 */
+	expect(message: string): T;
+	/**
+	 * Returns the contained `Some` value, or the provided default if `None`.
+	 *
+	 * @example
+	 * ```ts
+	 * some(42).unwrapOr(0); // 42
+	 * none<number>().unwrapOr(0); // 0
+	 * ```
+	 *
+	 * @param defaultValue - The default value to return if the option is `None`.
+	 *
+	 * @returns The contained `Some` value, or the provided default if `None`.
+	 */
+	unwrapOr(defaultValue: T): T;
+	/**
+	 * Returns the contained `Some` value, or computes it using the provided function.
+	 *
+	 * @example
+	 * ```ts
+	 * some(42).unwrapOrElse(() => 0); // 42
+	 * none<number>().unwrapOrElse(() => 0); // 0
+	 * ```
+	 *
+	 * @param fn - The function to compute the default value.
+	 *
+	 * @returns The contained `Some` value, or the computed default.
+	 */
+	unwrapOrElse(fn: () => T): T;
+
+	/**
+	 * Transforms the `Some` value using the provided function, leaving `None` unchanged.
+	 *
+	 * @example
+	 * ```ts
+	 * some(2).map((x) => x * 2); // some(4)
+	 * none<number>().map((x) => x * 2); // none()
+	 * ```
+	 *
+	 * @param fn - The function to transform the `Some` value.
+	 *
+	 * @returns The result of the transformation.
+	 */
+	map<U>(fn: (value: T) => U): Option<U>;
+	/**
+	 * Transforms the `Some` value using the provided function, or returns the default value if `None`.
+	 *
+	 * @example
+	 * ```ts
+	 * some(2).mapOr(0, (x) => x * 2); // 4
+	 * none<number>().mapOr(0, (x) => x * 2); // 0
+	 * ```
+	 *
+	 * @param defaultValue - The value to return if the option is `None`.
+	 * @param fn - The function to transform the `Some` value.
+	 *
+	 * @returns The transformed value, or the default if `None`.
+	 */
+	mapOr<U>(defaultValue: U, fn: (value: T) => U): U;
+	/**
+	 * Transforms the `Some` value using the provided function, or computes a default.
+	 *
+	 * @example
+	 * ```ts
+	 * some(2).mapOrElse(() => 0, (x) => x * 2); // 4
+	 * none<number>().mapOrElse(() => 0, (x) => x * 2); // 0
+	 * ```
+	 *
+	 * @param defaultFn - The function to compute the default value.
+	 * @param fn - The function to transform the `Some` value.
+	 *
+	 * @returns The transformed value, or the computed default if `None`.
+	 */
+	mapOrElse<U>(defaultFn: () => U, fn: (value: T) => U): U;
+
+	/**
+	 * Calls the provided function with the `Some` value and returns its result, or propagates `None`.
+	 *
+	 * @example
+	 * ```ts
+	 * some(2).andThen((x) => some(x * 2)); // some(4)
+	 * some(2).andThen(() => none()); // none()
+	 * none<number>().andThen((x) => some(x * 2)); // none()
+	 * ```
+	 *
+	 * @param fn - The function to call with the `Some` value.
+	 *
+	 * @returns The result of the function call, or `None`.
+	 */
+	andThen<U>(fn: (value: T) => Option<U>): Option<U>;
+	/**
+	 * Returns the provided `Option` if this is `Some`, otherwise propagates `None`.
+	 *
+	 * @example
+	 * ```ts
+	 * some(2).and(some("next")); // some("next")
+	 * none().and(some("next")); // none()
+	 * ```
+	 *
+	 * @param option - The option to return if this is `Some`.
+	 *
+	 * @returns The provided option if `Some`, otherwise `None`.
+	 */
+	and<U>(option: Option<U>): Option<U>;
+	/**
+	 * Returns this `Some` option, or the provided `Option` if this is `None`.
+	 *
+	 * @example
+	 * ```ts
+	 * some(2).or(some(1)); // some(2)
+	 * none<number>().or(some(1)); // some(1)
+	 * ```
+	 *
+	 * @param option - The option to return if this is `None`.
+	 *
+	 * @returns This option if `Some`, otherwise the provided option.
+	 */
+	or(option: Option<T>): Option<T>;
+	/**
+	 * Returns this `Some` option, or calls the provided function if this is `None`.
+	 *
+	 * @example
+	 * ```ts
+	 * some(2).orElse(() => some(0)); // some(2)
+	 * none<number>().orElse(() => some(0)); // some(0)
+	 * ```
+	 *
+	 * @param fn - The function to call if this is `None`.
+	 *
+	 * @returns This option if `Some`, otherwise the result of the function call.
+	 */
+	orElse(fn: () => Option<T>): Option<T>;
+	/**
+	 * Returns this option if it is `Some` and the contained value satisfies the predicate,
+	 * otherwise returns `None`. When a type predicate is passed, narrows the value type.
+	 *
+	 * @example
+	 * ```ts
+	 * some(42).filter((x) => x > 10); // some(42)
+	 * some(5).filter((x) => x > 10); // none()
+	 * none<number>().filter((x) => x > 10); // none()
+	 * ```
+	 *
+	 * @param fn - The predicate to apply to the `Some` value.
+	 *
+	 * @returns This option if the predicate passes, otherwise `None`.
+	 */
+	filter<S extends T>(fn: (value: T) => value is S): Option<S>;
+	filter(fn: (value: T) => boolean): Option<T>;
+
+	/**
+	 * Pattern matches on the option, calling the appropriate handler and returning its value.
+	 *
+	 * @example
+	 * ```ts
+	 * some(42).match({
+	 *   some: (v) => `value: ${v}`,
+	 *   none: () => "nothing",
+	 * }); // "value: 42"
+	 * ```
+	 *
+	 * @param handlers - The handlers to call based on the option.
+	 *
+	 * @returns The result of the handler call.
+	 */
+	match<U>(handlers: { some: (value: T) => U; none: () => U }): U;
+
+	/**
+	 * Calls the provided function with the `Some` value for side effects, returning the original option.
+	 *
+	 * @example
+	 * ```ts
+	 * some(42).inspect((x) => console.log(x)); // logs 42, returns some(42)
+	 * none().inspect((x) => console.log(x)); // does nothing, returns none()
+	 * ```
+	 *
+	 * @param fn - The function to call with the `Some` value.
+	 *
+	 * @returns The original option, unchanged.
+	 */
+	inspect(fn: (value: T) => void): Option<T>;
+
+	/**
+	 * Flattens a nested `Option<Option<U>>` into `Option<U>`.
+	 *
+	 * @example
+	 * ```ts
+	 * some(some(42)).flatten(); // some(42)
+	 * some(none()).flatten(); // none()
+	 * none().flatten(); // none()
+	 * ```
+	 *
+	 * @returns The flattened option.
+	 */
+	flatten<U>(this: Option<Option<U>>): Option<U>;
+
+	/**
+	 * Converts this `Option` into a `Result`, mapping `Some(v)` to `Ok(v)` and `None` to
+	 * `Err(error)`.
+	 *
+	 * @example
+	 * ```ts
+	 * some(42).okOr("missing"); // ok(42)
+	 * none().okOr("missing"); // err("missing")
+	 * ```
+	 *
+	 * @param error - The error to use if the option is `None`.
+	 *
+	 * @returns A `Result` containing the `Some` value, or the provided error.
+	 */
+	okOr<E>(error: E): Result<T, E>;
+	/**
+	 * Converts this `Option` into a `Result`, mapping `Some(v)` to `Ok(v)` and `None` to
+	 * `Err(fn())`. The error is only computed if the option is `None`.
+	 *
+	 * @example
+	 * ```ts
+	 * some(42).okOrElse(() => new NotFound()); // ok(42)
+	 * none().okOrElse(() => new NotFound()); // err(NotFound)
+	 * ```
+	 *
+	 * @param fn - The function to compute the error if the option is `None`.
+	 *
+	 * @returns A `Result` containing the `Some` value, or the computed error.
+	 */
+	okOrElse<E>(fn: () => E): Result<T, E>;
+	/**
+	 * Transposes an `Option` of a `Result` into a `Result` of an `Option`.
+	 *
+	 * `None` maps to `Ok(None)`, `Some(Ok(v))` maps to `Ok(Some(v))`, and `Some(Err(e))` maps to
+	 * `Err(e)`.
+	 *
+	 * @example
+	 * ```ts
+	 * some(ok(42)).transpose(); // ok(some(42))
+	 * some(err("oops")).transpose(); // err("oops")
+	 * none().transpose(); // ok(none())
+	 * ```
+	 *
+	 * @returns The transposed result.
+	 */
+	transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E>;
+}
+
+/**
+ * The error yielded when a `None` is unwrapped with `yield*` inside a `chain(...)` generator.
+ *
+ * Prefer `option.okOr(error)` / `option.okOrElse(fn)` to short-circuit with a
+ * domain-specific error instead.
+ *
+ * @example
+ * ```ts
+ * const result = chain(function* () {
+ *   return yield* none<number>();
+ * });
+ * result.unwrapErr(); // NoneError
+ * ```
+ */
+export class NoneError extends Error {
+	override readonly name = "NoneError";
+
+	constructor() {
+		super("Called yield* on a None value");
+	}
+}
+
+/**
+ * Represents an option containing a value.
+ *
+ * @example
+ * ```ts
+ * const option = new Some(42);
+ * console.log(option.value); // 42
+ * ```
+ *
+ * @template T - The type of the contained value.
+ */
+export class Some<T> implements OptionMethods<T> {
+	/** The contained value. */
+	readonly value: T;
+
+	/**
+	 * Creates a new Some option.
+	 *
+	 * @param value - The value to wrap.
+	 */
+	constructor(value: T) {
+		this.value = value;
+	}
+
+	// biome-ignore lint/correctness/useYield: Generator returns immediately for Some values
+	*[Symbol.iterator](): SyncChainGenerator<T, NoneError> {
+		return this.value;
+	}
+
+	isSome(): this is Some<T> {
+		return true;
+	}
+
+	isNone(): this is None<T> {
+		return false;
+	}
+
+	isSomeAnd<S extends T>(fn: (value: T) => value is S): this is Some<S>;
+	isSomeAnd(fn: (value: T) => boolean): boolean;
+	isSomeAnd(fn: (value: T) => boolean): boolean {
+		return fn(this.value);
+	}
+
+	unwrap(): T {
+		return this.value;
+	}
+
+	expect(_message: string): T {
+		return this.value;
+	}
+
+	unwrapOr(_defaultValue: T): T {
+		return this.value;
+	}
+
+	unwrapOrElse(_fn: () => T): T {
+		return this.value;
+	}
+
+	map<U>(fn: (value: T) => U): Option<U> {
+		return new Some(fn(this.value));
+	}
+
+	mapOr<U>(_defaultValue: U, fn: (value: T) => U): U {
+		return fn(this.value);
+	}
+
+	mapOrElse<U>(_defaultFn: () => U, fn: (value: T) => U): U {
+		return fn(this.value);
+	}
+
+	andThen<U>(fn: (value: T) => Option<U>): Option<U> {
+		return fn(this.value);
+	}
+
+	and<U>(option: Option<U>): Option<U> {
+		return option;
+	}
+
+	or(_option: Option<T>): Option<T> {
+		return this;
+	}
+
+	orElse(_fn: () => Option<T>): Option<T> {
+		return this;
+	}
+
+	filter<S extends T>(fn: (value: T) => value is S): Option<S>;
+	filter(fn: (value: T) => boolean): Option<T>;
+	filter(fn: (value: T) => boolean): Option<T> {
+		return fn(this.value) ? this : none();
+	}
+
+	match<U>(handlers: { some: (value: T) => U; none: () => U }): U {
+		return handlers.some(this.value);
+	}
+
+	inspect(fn: (value: T) => void): Option<T> {
+		fn(this.value);
+		return this;
+	}
+
+	flatten<U>(this: Some<Option<U>>): Option<U> {
+		return this.value;
+	}
+
+	okOr<E>(_error: E): Result<T, E> {
+		return ok(this.value);
+	}
+
+	okOrElse<E>(_fn: () => E): Result<T, E> {
+		return ok(this.value);
+	}
+
+	transpose<U, E>(this: Some<Result<U, E>>): Result<Option<U>, E> {
+		return this.value.map((value) => new Some(value));
+	}
+}
+
+/**
+ * Represents an option containing no value.
+ *
+ * @example
+ * ```ts
+ * const option = none<number>();
+ * console.log(option.isNone()); // true
+ * ```
+ *
+ * @template T - The type of the value (unused in None, but required for type compatibility).
+ */
+export class None<T> implements OptionMethods<T> {
+	// Brand that keeps `Some<T>` from being structurally assignable to `None<T>`.
+	private declare readonly _none: undefined;
+
+	*[Symbol.iterator](): SyncChainGenerator<T, NoneError> {
+		yield err(new NoneError());
+		throw new Error("Unreachable: generator should have been halted");
+	}
+
+	isSome(): this is Some<T> {
+		return false;
+	}
+
+	isNone(): this is None<T> {
+		return true;
+	}
+
+	isSomeAnd<S extends T>(fn: (value: T) => value is S): this is Some<S>;
+	isSomeAnd(fn: (value: T) => boolean): boolean;
+	isSomeAnd(_fn: (value: T) => boolean): boolean {
+		return false;
+	}
+
+	unwrap(): T {
+		throw new Error("Called unwrap on a None value");
+	}
+
+	expect(message: string): T {
+		throw new Error(message);
+	}
+
+	unwrapOr(defaultValue: T): T {
+		return defaultValue;
+	}
+
+	unwrapOrElse(fn: () => T): T {
+		return fn();
+	}
+
+	map<U>(_fn: (value: T) => U): Option<U> {
+		// Cast avoids allocating a new None; the value type U is phantom here.
+		return this as unknown as None<U>;
+	}
+
+	mapOr<U>(defaultValue: U, _fn: (value: T) => U): U {
+		return defaultValue;
+	}
+
+	mapOrElse<U>(defaultFn: () => U, _fn: (value: T) => U): U {
+		return defaultFn();
+	}
+
+	andThen<U>(_fn: (value: T) => Option<U>): Option<U> {
+		// Cast avoids allocating a new None; the value type U is phantom here.
+		return this as unknown as None<U>;
+	}
+
+	and<U>(_option: Option<U>): Option<U> {
+		// Cast avoids allocating a new None; the value type U is phantom here.
+		return this as unknown as None<U>;
+	}
+
+	or(option: Option<T>): Option<T> {
+		return option;
+	}
+
+	orElse(fn: () => Option<T>): Option<T> {
+		return fn();
+	}
+
+	filter<S extends T>(fn: (value: T) => value is S): Option<S>;
+	filter(fn: (value: T) => boolean): Option<T>;
+	filter(_fn: (value: T) => boolean): Option<T> {
+		return this;
+	}
+
+	match<U>(handlers: { some: (value: T) => U; none: () => U }): U {
+		return handlers.none();
+	}
+
+	inspect(_fn: (value: T) => void): Option<T> {
+		return this;
+	}
+
+	flatten<U>(this: None<Option<U>>): Option<U> {
+		return this as unknown as None<U>;
+	}
+
+	okOr<E>(error: E): Result<T, E> {
+		return err(error);
+	}
+
+	okOrElse<E>(fn: () => E): Result<T, E> {
+		return err(fn());
+	}
+
+	transpose<U, E>(this: None<Result<U, E>>): Result<Option<U>, E> {
+		return ok(this as unknown as None<U>);
+	}
+}
+
+/**
+ * A type that represents either a present value (`Some`) or the absence of one (`None`).
+ *
+ * @example
+ * ```ts
+ * function find(id: string): Option<User> {
+ *   const user = users.get(id);
+ *   return user === undefined ? none() : some(user);
+ * }
+ * ```
+ *
+ * @template T - The type of the contained value.
+ */
+export type Option<T> = Some<T> | None<T>;
+
+/**
+ * Creates a `Some` option containing the given value.
+ *
+ * @example
+ * ```ts
+ * const option = some(42);
+ * option.unwrap(); // 42
+ * ```
+ *
+ * @template T - The type of the contained value.
+ *
+ * @param value - The value to wrap.
+ *
+ * @returns A `Some` option containing the value.
+ */
+export function some<T>(value: T): Some<T> {
+	return new Some(value);
+}
+
+const NONE = new None<never>();
+
+/**
+ * Returns a `None` option.
+ *
+ * @example
+ * ```ts
+ * const option = none<number>();
+ * option.unwrapOr(0); // 0
+ * ```
+ *
+ * @template T - The type of the value (defaults to `never`).
+ *
+ * @returns A `None` option.
+ */
+export function none<T = never>(): None<T> {
+	// `None` holds no data, so a single shared instance is safe to reuse.
+	return NONE as None<T>;
+}
+
+interface OptionNamespace {
+	/**
+	 * Creates an `Option` from a nullable value. `null` and `undefined` become `None`;
+	 * every other value becomes `Some`.
+	 *
+	 * @example
+	 * ```ts
+	 * Option.fromNullable(map.get("key")); // some(value) or none()
+	 * Option.fromNullable(null); // none()
+	 * Option.fromNullable(0); // some(0)
+	 * ```
+	 *
+	 * @template T - The type of the nullable value.
+	 *
+	 * @param value - The value to wrap.
+	 *
+	 * @returns `Some` containing the value, or `None` if it is `null` or `undefined`.
+	 */
+	fromNullable<T>(value: T): Option<NonNullable<T>>;
+}
+
+export const Option: OptionNamespace = {
+	fromNullable<T>(value: T): Option<NonNullable<T>> {
+		return value === null || value === undefined ? none() : some(value);
+	},
+};
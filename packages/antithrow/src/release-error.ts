@@ -0,0 +1,41 @@
+/**
+ * The error produced by `ResultAsync.bracket` when the body fails and releasing the resource
+ * fails too. Holds the body's error as `error` (and `cause`) and the release failure as
+ * `releaseError`, so neither is lost. If the body threw, the `ReleaseError` is thrown rather
+ * than returned.
+ *
+ * @example
+ * ```ts
+ * const result = await ResultAsync.bracket(
+ *   () => open(path, "r"),
+ *   (handle) => readAll(handle),
+ *   (handle) => close(handle),
+ * );
+ * if (result.isErr() && result.error instanceof ReleaseError) {
+ *   result.error.error; // the read failure
+ *   result.error.releaseError; // the close failure
+ * }
+ * ```
+ *
+ * @template E - The type of the body's error.
+ * @template F - The type of the release error.
+ */
+export class ReleaseError<E, F> extends Error {
+	override readonly name = "ReleaseError";
+	/** The error the body failed with. */
+	readonly error: E;
+	/** The error releasing the resource failed with, or the exception it threw. */
+	readonly releaseError: F;
+
+	/**
+	 * Creates a new ReleaseError.
+	 *
+	 * @param error - The error the body failed with.
+	 * @param releaseError - The error releasing the resource failed with.
+	 */
+	constructor(error: E, releaseError: F) {
+		super("Releasing a resource failed after the operation failed", { cause: error });
+		this.error = error;
+		this.releaseError = releaseError;
+	}
+}
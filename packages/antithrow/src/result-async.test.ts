@@ -1,7 +1,14 @@
 import { describe, expect, expectTypeOf, mock, test } from "bun:test";
+import { inspect } from "node:util";
+import { ContextError } from "./context.js";
+import { ReleaseError } from "./release-error.js";
 import type { Result } from "./result.js";
 import { err, ok } from "./result.js";
 import { errAsync, okAsync, ResultAsync } from "./result-async.js";
+import type { RetryError } from "./retry.js";
+import { Backoff } from "./retry.js";
+import { TaggedError } from "./tagged-error.js";
+import { UnwrapError } from "./unwrap-error.js";
 
 describe("ResultAsync", () => {
 	describe("okAsync", () => {
@@ -73,6 +80,15 @@ describe("ResultAsync", () => {
 			const result = errAsync("error");
 			expect(result.unwrap()).rejects.toThrow("Called unwrap on an Err value: error");
 		});
+
+		test("rejects with an UnwrapError caused by the error", async () => {
+			const cause = new Error("boom");
+			const thrown = await errAsync(cause)
+				.unwrap()
+				.catch((error: unknown) => error);
+			expect(thrown).toBeInstanceOf(UnwrapError);
+			expect(thrown).toMatchObject({ value: cause, cause });
+		});
 	});
 
 	describe("unwrapErr", () => {
@@ -85,6 +101,14 @@ describe("ResultAsync", () => {
 			const result = okAsync(42);
 			expect(result.unwrapErr()).rejects.toThrow("Called unwrapErr on an Ok value: 42");
 		});
+
+		test("rejects with an UnwrapError holding the value", async () => {
+			const thrown = await okAsync(42)
+				.unwrapErr()
+				.catch((error: unknown) => error);
+			expect(thrown).toBeInstanceOf(UnwrapError);
+			expect(thrown).toMatchObject({ value: 42 });
+		});
 	});
 
 	describe("expect", () => {
@@ -391,6 +415,48 @@ describe("ResultAsync", () => {
 		});
 	});
 
+	describe("andThrough", () => {
+		test("resolves to the original result if fn returns Ok", async () => {
+			expect(await okAsync(2).andThrough(async () => ok("ignored"))).toEqual(ok(2));
+		});
+
+		test("resolves to the Err of fn", async () => {
+			const result = okAsync(2).andThrough((x) => errAsync(`cannot write ${x}`));
+			expect(await result).toEqual(err("cannot write 2"));
+		});
+
+		test("does not call fn for Err", async () => {
+			let called = false;
+			const result = errAsync("oops").andThrough(() => {
+				called = true;
+				return ok();
+			});
+			expect(await result).toEqual(err("oops"));
+			expect(called).toBe(false);
+		});
+	});
+
+	describe("orThrough", () => {
+		test("resolves to the original result if fn returns Ok", async () => {
+			expect(await errAsync("oops").orThrough(() => okAsync("reported"))).toEqual(err("oops"));
+		});
+
+		test("resolves to the Err of fn", async () => {
+			const result = errAsync("oops").orThrough(async (e) => err(`failed to report ${e}`));
+			expect(await result).toEqual(err("failed to report oops"));
+		});
+
+		test("does not call fn for Ok", async () => {
+			let called = false;
+			const result = okAsync(42).orThrough(() => {
+				called = true;
+				return err("other");
+			});
+			expect(await result).toEqual(ok(42));
+			expect(called).toBe(false);
+		});
+	});
+
 	describe("flatten", () => {
 		test("flattens okAsync(ok(value)) to ok(value)", async () => {
 			const result = okAsync(ok(42)).flatten();
@@ -424,6 +490,26 @@ describe("ResultAsync", () => {
 		});
 	});
 
+	describe("ok method", () => {
+		test("resolves to Some for Ok", async () => {
+			expect((await okAsync(42).ok()).unwrap()).toBe(42);
+		});
+
+		test("resolves to None for Err", async () => {
+			expect((await errAsync("oops").ok()).isNone()).toBe(true);
+		});
+	});
+
+	describe("err method", () => {
+		test("resolves to None for Ok", async () => {
+			expect((await okAsync(42).err()).isNone()).toBe(true);
+		});
+
+		test("resolves to Some for Err", async () => {
+			expect((await errAsync("oops").err()).unwrap()).toBe("oops");
+		});
+	});
+
 	describe("PromiseLike", () => {
 		test("can be awaited directly", async () => {
 			const result = await okAsync(42);
@@ -536,8 +622,592 @@ describe("ResultAsync", () => {
 			expect(await result.isErr()).toBe(true);
 			expect((await result.unwrapErr()) as Error).toBeInstanceOf(Error);
 		});
+
+		test("passes the signal to the function", async () => {
+			const controller = new AbortController();
+			let received: AbortSignal | undefined;
+			await ResultAsync.try(
+				(signal) => {
+					received = signal;
+					return 42;
+				},
+				{ signal: controller.signal },
+			);
+			expect(received).toBe(controller.signal);
+		});
+
+		test("returns Err with the abort reason without calling fn when already aborted", async () => {
+			const controller = new AbortController();
+			controller.abort("cancelled");
+			let called = false;
+			const result = ResultAsync.try(
+				() => {
+					called = true;
+					return 42;
+				},
+				{ signal: controller.signal },
+			);
+			expect(await result.unwrapErr()).toBe("cancelled");
+			expect(called).toBe(false);
+		});
+
+		test("returns Err with the abort reason when aborted mid-flight", async () => {
+			const controller = new AbortController();
+			const result = ResultAsync.try(() => new Promise<number>(() => {}), {
+				signal: controller.signal,
+			});
+			controller.abort("cancelled");
+			expect(await result.unwrapErr()).toBe("cancelled");
+		});
+
+		test("maps the caught value with mapError", async () => {
+			const result = ResultAsync.try(
+				() => Promise.reject(new Error("boom")),
+				(caught) => `failed: ${(caught as Error).message}`,
+			);
+			expect(await result.unwrapErr()).toBe("failed: boom");
+		});
+
+		test("maps the abort reason with mapError", async () => {
+			const controller = new AbortController();
+			controller.abort("cancelled");
+			const result = ResultAsync.try(
+				() => 42,
+				(caught) => `failed: ${caught}`,
+				{ signal: controller.signal },
+			);
+			expect(await result.unwrapErr()).toBe("failed: cancelled");
+		});
+
+		test("catches values accepted by catchIf", async () => {
+			const error = new TypeError("network");
+			const result = ResultAsync.try(() => Promise.reject(error), {
+				catchIf: (caught) => caught instanceof TypeError,
+				mapError: (caught) => caught.message,
+			});
+			expect(await result.unwrapErr()).toBe("network");
+		});
+
+		test("rejects with values rejected by catchIf", async () => {
+			const defect = new RangeError("defect");
+			const result = ResultAsync.try(() => Promise.reject(defect), {
+				catchIf: (caught) => caught instanceof TypeError,
+			});
+			await expect(result.then()).rejects.toBe(defect);
+		});
+
+		test("rejects with an abort reason rejected by catchIf", async () => {
+			const controller = new AbortController();
+			const result = ResultAsync.try(() => new Promise<number>(() => {}), {
+				signal: controller.signal,
+				catchIf: (caught) => caught instanceof TypeError,
+			});
+			controller.abort("cancelled");
+			await expect(result.then()).rejects.toBe("cancelled");
+		});
+
+		test("ignores an abort after the function settles", async () => {
+			const controller = new AbortController();
+			const result = ResultAsync.try(async () => 42, { signal: controller.signal });
+			expect(await result.unwrap()).toBe(42);
+			controller.abort("too late");
+			expect(await result.unwrap()).toBe(42);
+		});
+	});
+
+	describe("ResultAsync.isResultAsync", () => {
+		test("recognizes ResultAsync instances", () => {
+			expect(ResultAsync.isResultAsync(okAsync(1))).toBe(true);
+			expect(ResultAsync.isResultAsync(errAsync("oops"))).toBe(true);
+		});
+
+		test("rejects other values", () => {
+			for (const value of [null, 1, ok(1), Promise.resolve(ok(1))]) {
+				expect(ResultAsync.isResultAsync(value)).toBe(false);
+			}
+		});
+
+		test("recognizes instances from another copy", async () => {
+			// Same shape and brand as a ResultAsync from another copy of antithrow.
+			const instance = okAsync(1);
+			const prototype = Object.create(
+				Object.prototype,
+				Object.getOwnPropertyDescriptors(ResultAsync.prototype),
+			);
+			const foreign = Object.assign(Object.create(prototype), instance) as ResultAsync<
+				number,
+				never
+			>;
+			expect(foreign).not.toBeInstanceOf(ResultAsync);
+			expect(ResultAsync.isResultAsync(foreign)).toBe(true);
+			expect(await ResultAsync.all([foreign, okAsync(2)])).toEqual(ok([1, 2]));
+		});
+	});
+
+	describe("util.inspect", () => {
+		test("shows a pending ResultAsync", () => {
+			const pending = ResultAsync.fromPromise(new Promise<Result<number, string>>(() => {}));
+			expect(inspect(pending)).toBe("ResultAsync { <pending> }");
+		});
+
+		test("shows the settled result", async () => {
+			const value = okAsync(42);
+			const error = errAsync("bad");
+			await value;
+			await error;
+			expect(inspect(value)).toBe("ResultAsync { Ok(42) }");
+			expect(inspect(error)).toBe('ResultAsync { Err("bad") }');
+		});
 	});
 
+	describe("bracket", () => {
+		const resource = () => {
+			const log: string[] = [];
+			return {
+				log,
+				acquire: () => okAsync<string[], "acquire">(log),
+				release: (held: string[]) => {
+					held.push("release");
+					return ok();
+				},
+			};
+		};
+
+		test("releases the resource after a successful body", async () => {
+			const { log, acquire, release } = resource();
+			const result = await ResultAsync.bracket(
+				acquire,
+				(held) => {
+					held.push("use");
+					return okAsync(42);
+				},
+				release,
+			);
+			expect(result).toEqual(ok(42));
+			expect(log).toEqual(["use", "release"]);
+		});
+
+		test("releases the resource exactly once when the body fails", async () => {
+			const { log, acquire, release } = resource();
+			const result = await ResultAsync.bracket(acquire, () => err("use"), release);
+			expect(result).toEqual(err("use"));
+			expect(log).toEqual(["release"]);
+		});
+
+		test("releases the resource and rethrows when the body throws", async () => {
+			const { log, acquire, release } = resource();
+			const defect = new Error("boom");
+			const result = ResultAsync.bracket(
+				acquire,
+				async (): Promise<Result<number, string>> => {
+					throw defect;
+				},
+				release,
+			);
+			expect(result.then()).rejects.toBe(defect);
+			await result.then(
+				() => {},
+				() => {},
+			);
+			expect(log).toEqual(["release"]);
+		});
+
+		test("rethrows a ReleaseError when the body throws and release returns Err", async () => {
+			const { acquire } = resource();
+			const defect = new Error("boom");
+			const result = ResultAsync.bracket(
+				acquire,
+				async (): Promise<Result<number, string>> => {
+					throw defect;
+				},
+				() => errAsync("release"),
+			);
+			const error = await result.then(
+				() => undefined,
+				(reason: unknown) => reason,
+			);
+			expect(error).toBeInstanceOf(ReleaseError);
+			expect(error).toMatchObject({ error: defect, releaseError: "release", cause: defect });
+		});
+
+		test("rethrows a ReleaseError when both the body and release throw", async () => {
+			const { acquire } = resource();
+			const defect = new Error("boom");
+			const releaseDefect = new Error("close");
+			const result = ResultAsync.bracket(
+				acquire,
+				async (): Promise<Result<number, string>> => {
+					throw defect;
+				},
+				async (): Promise<Result<void, string>> => {
+					throw releaseDefect;
+				},
+			);
+			const error = await result.then(
+				() => undefined,
+				(reason: unknown) => reason,
+			);
+			expect(error).toBeInstanceOf(ReleaseError);
+			expect(error).toMatchObject({ error: defect, releaseError: releaseDefect });
+		});
+
+		test("does not call use or release when acquire fails", async () => {
+			let called = false;
+			const result = await ResultAsync.bracket(
+				() => errAsync("acquire"),
+				() => {
+					called = true;
+					return ok(1);
+				},
+				() => {
+					called = true;
+					return ok();
+				},
+			);
+			expect(result).toEqual(err("acquire"));
+			expect(called).toBe(false);
+		});
+
+		test("returns the release error after a successful body", async () => {
+			const { acquire } = resource();
+			const result = await ResultAsync.bracket(
+				acquire,
+				() => ok(42),
+				() => err("release"),
+			);
+			expect(result).toEqual(err("release"));
+		});
+
+		test("combines the body error and a thrown release exception into a ReleaseError", async () => {
+			const { acquire } = resource();
+			const releaseDefect = new Error("close failed");
+			const result = await ResultAsync.bracket(
+				acquire,
+				() => err("use"),
+				async (): Promise<Result<void, string>> => {
+					throw releaseDefect;
+				},
+			);
+			const error = result.unwrapErr();
+			expect(error).toBeInstanceOf(ReleaseError);
+			expect(error).toMatchObject({ error: "use", releaseError: releaseDefect });
+		});
+
+		test("rejects when release throws after a successful body", async () => {
+			const { acquire } = resource();
+			const releaseDefect = new Error("close failed");
+			const result = ResultAsync.bracket(
+				acquire,
+				() => ok(42),
+				async (): Promise<Result<void, string>> => {
+					throw releaseDefect;
+				},
+			);
+			await expect(result.then()).rejects.toBe(releaseDefect);
+		});
+
+		test("combines the body and release errors into a ReleaseError", async () => {
+			const { acquire } = resource();
+			const result = await ResultAsync.bracket(
+				acquire,
+				() => err("use"),
+				() => errAsync("release"),
+			);
+			const error = result.unwrapErr();
+			expect(error).toBeInstanceOf(ReleaseError);
+			expect(error).toMatchObject({ error: "use", releaseError: "release", cause: "use" });
+		});
+	});
+
+	describe("scope", () => {
+		const never = (signal: AbortSignal) =>
+			ResultAsync.try<number, unknown>(() => new Promise<number>(() => {}), { signal });
+
+		test("returns the body result once children succeed", async () => {
+			const result = ResultAsync.scope((scope) =>
+				ResultAsync.all([scope.run(() => okAsync(1)), scope.run(() => ok("two"))]),
+			);
+			expect(await result.unwrap()).toEqual([1, "two"]);
+		});
+
+		test("aborts siblings with the first error as the reason", async () => {
+			let reason: unknown;
+			const result = ResultAsync.scope((scope) =>
+				ResultAsync.all([
+					scope.run((signal) =>
+						never(signal).inspectErr((e) => {
+							reason = e;
+						}),
+					),
+					scope.run(() => errAsync("boom")),
+				]),
+			);
+			expect(await result.unwrapErr()).toBe("boom");
+			expect(reason).toBe("boom");
+		});
+
+		test("waits for every child to settle before resolving", async () => {
+			let slowSettled = false;
+			const result = ResultAsync.scope((scope) =>
+				ResultAsync.all([
+					scope.run(async () => {
+						await new Promise((r) => setTimeout(r, 10));
+						slowSettled = true;
+						return ok(1);
+					}),
+					scope.run(() => errAsync("fast")),
+				]),
+			);
+			expect(await result.unwrapErr()).toBe("fast");
+			expect(slowSettled).toBe(true);
+		});
+
+		test("waits for children the body does not await", async () => {
+			let settled = false;
+			const result = ResultAsync.scope((scope) => {
+				scope.run(async () => {
+					await new Promise((r) => setTimeout(r, 5));
+					settled = true;
+					return ok(undefined);
+				});
+				return ok("done");
+			});
+			expect(await result.unwrap()).toBe("done");
+			expect(settled).toBe(true);
+		});
+
+		test("waits for children started by other children", async () => {
+			let settled = false;
+			const result = ResultAsync.scope((scope) =>
+				scope.run(() => {
+					scope.run(async () => {
+						await new Promise((r) => setTimeout(r, 5));
+						settled = true;
+						return ok(undefined);
+					});
+					return ok(1);
+				}),
+			);
+			expect(await result.unwrap()).toBe(1);
+			expect(settled).toBe(true);
+		});
+
+		test("aborts children when the body returns an Err", async () => {
+			let aborted = false;
+			const result = ResultAsync.scope((scope) => {
+				scope.run((signal) =>
+					never(signal).inspectErr(() => {
+						aborted = true;
+					}),
+				);
+				return err("body failed");
+			});
+			expect(await result.unwrapErr()).toBe("body failed");
+			expect(aborted).toBe(true);
+		});
+
+		test("aborts siblings when a child throws, and rethrows", async () => {
+			let signal: AbortSignal | undefined;
+			const error = new Error("thrown");
+			const result = ResultAsync.scope((scope) => {
+				signal = scope.signal;
+				return scope.run(() => {
+					throw error;
+				});
+			});
+			await expect(result.then()).rejects.toBe(error);
+			expect(signal?.aborted).toBe(true);
+			expect(signal?.reason).toBe(error);
+		});
+	});
+
+	describe("ResultAsync.fromThrowable", () => {
+		test("returns Ok with the resolved value", async () => {
+			const double = ResultAsync.fromThrowable(async (x: number) => x * 2);
+			expect(await double(21).unwrap()).toBe(42);
+		});
+
+		test("returns Err when the function throws synchronously", async () => {
+			const error = new Error("sync boom");
+			const fail = ResultAsync.fromThrowable((): Promise<number> => {
+				throw error;
+			});
+			expect(await fail().unwrapErr()).toBe(error);
+		});
+
+		test("returns Err when the promise rejects", async () => {
+			const error = new Error("rejected");
+			const fail = ResultAsync.fromThrowable(() => Promise.reject(error));
+			expect(await fail().unwrapErr()).toBe(error);
+		});
+
+		test("maps the caught value with mapError", async () => {
+			const fail = ResultAsync.fromThrowable(
+				() => Promise.reject(new Error("rejected")),
+				(caught) => (caught as Error).message,
+			);
+			expect(await fail().unwrapErr()).toBe("rejected");
+		});
+	});
+
+	describe("context", () => {
+		test("wraps the error in a ContextError", async () => {
+			const error = new Error("ENOENT");
+			const wrapped = await errAsync(error).context("loading config").unwrapErr();
+			expect(wrapped).toBeInstanceOf(ContextError);
+			expect(wrapped.message).toBe("loading config");
+			expect(wrapped.cause).toBe(error);
+		});
+
+		test("returns Ok unchanged", async () => {
+			expect(await okAsync(42).context("loading config").unwrap()).toBe(42);
+		});
+	});
+
+	describe("withContext", () => {
+		test("computes the context from the error", async () => {
+			const wrapped = await errAsync("ENOENT")
+				.withContext((e) => `loading config (${e})`)
+				.unwrapErr();
+			expect(wrapped.message).toBe("loading config (ENOENT)");
+			expect(wrapped.cause).toBe("ENOENT");
+		});
+	});
+
+	describe("catchTag", () => {
+		class NotFound extends TaggedError("NotFound")<{ resource: string }> {}
+		class Unauthorized extends TaggedError("Unauthorized") {}
+
+		test("recovers from an error with the tag", async () => {
+			const result = errAsync<string, NotFound | Unauthorized>(
+				new NotFound({ resource: "user" }),
+			).catchTag("NotFound", async (e) => ok(`guest ${e.resource}`));
+			expect(await result.unwrap()).toBe("guest user");
+		});
+
+		test("propagates errors with other tags", async () => {
+			const error = new Unauthorized();
+			const result = errAsync<string, NotFound | Unauthorized>(error).catchTag("NotFound", () =>
+				okAsync("guest"),
+			);
+			expect(await result.unwrapErr()).toBe(error);
+		});
+	});
+
+	describe("catchIf", () => {
+		class ParseError extends TaggedError("ParseError") {}
+		class IoError extends TaggedError("IoError") {}
+
+		test("recovers from an error that is an instance of the class", async () => {
+			const result = errAsync<number, ParseError | IoError>(
+				new ParseError({ message: "bad" }),
+			).catchIf(ParseError, (e) => okAsync(e.message.length));
+			expect(await result.unwrap()).toBe(3);
+		});
+
+		test("propagates errors of other classes", async () => {
+			const error = new IoError();
+			const result = errAsync<number, ParseError | IoError>(error).catchIf(ParseError, () => ok(0));
+			expect(await result.unwrapErr()).toBe(error);
+		});
+	});
+
+	describe("matchTag", () => {
+		class NotFound extends TaggedError("NotFound")<{ resource: string }> {}
+		class Unauthorized extends TaggedError("Unauthorized") {}
+		const handlers = {
+			ok: async (value: number) => `ok: ${value}`,
+			NotFound: (e: NotFound) => `missing ${e.resource}`,
+			Unauthorized: async () => "denied",
+		};
+
+		test("calls ok handler for Ok", async () => {
+			const result = okAsync<number, NotFound | Unauthorized>(42);
+			expect(await result.matchTag(handlers)).toBe("ok: 42");
+		});
+
+		test("calls the handler for the error's tag", async () => {
+			const notFound = errAsync<number, NotFound | Unauthorized>(
+				new NotFound({ resource: "user" }),
+			);
+			const unauthorized = errAsync<number, NotFound | Unauthorized>(new Unauthorized());
+			expect(await notFound.matchTag(handlers)).toBe("missing user");
+			expect(await unauthorized.matchTag(handlers)).toBe("denied");
+		});
+	});
+
+	describe("timeout", () => {
+		const never = () => ResultAsync.try<number, string>(() => new Promise<number>(() => {}));
+
+		test("returns the result when it settles in time", async () => {
+			expect(
+				await okAsync(42)
+					.timeout(10, () => "timed out")
+					.unwrap(),
+			).toBe(42);
+			expect(
+				await errAsync("oops")
+					.timeout(10, () => "timed out")
+					.unwrapErr(),
+			).toBe("oops");
+		});
+
+		test("returns Err from onTimeout when the deadline passes", async () => {
+			const result = never().timeout(1, () => "timed out");
+			expect(await result.unwrapErr()).toBe("timed out");
+		});
+
+		test("calls onTimeout only when the deadline passes", async () => {
+			let calls = 0;
+			const onTimeout = () => {
+				calls += 1;
+				return "timed out";
+			};
+			await okAsync(42).timeout(1, onTimeout);
+			await new Promise((r) => setTimeout(r, 5));
+			expect(calls).toBe(0);
+
+			await never().timeout(1, onTimeout);
+			expect(calls).toBe(1);
+		});
+
+		test("rejects with the reason when the result rejects in time", async () => {
+			const defect = new Error("defect");
+			let calls = 0;
+			const result = ResultAsync.fromPromise<number, string>(Promise.reject(defect)).timeout(
+				5,
+				() => {
+					calls += 1;
+					return "timed out";
+				},
+			);
+			await expect(result.then()).rejects.toBe(defect);
+			await new Promise((r) => setTimeout(r, 10));
+			expect(calls).toBe(0);
+		});
+
+		test("rejects when onTimeout throws", async () => {
+			const defect = new Error("defect");
+			const result = never().timeout(1, () => {
+				throw defect;
+			});
+			await expect(result.then()).rejects.toBe(defect);
+		});
+
+		test("never times out with an infinite time limit", async () => {
+			const slow = ResultAsync.try(async () => {
+				await new Promise((r) => setTimeout(r, 20));
+				return 42;
+			});
+			expect(await slow.timeout(Number.POSITIVE_INFINITY, () => "timed out").unwrap()).toBe(42);
+		});
+
+		test("throws a RangeError for an invalid time limit", () => {
+			for (const ms of [-1, Number.NaN, 2 ** 31]) {
+				expect(() => okAsync(1).timeout(ms, () => "timed out")).toThrow(RangeError);
+			}
+		});
+	});
 	describe("async callbacks (MaybePromise)", () => {
 		test("map with async callback", async () => {
 			const result = okAsync(42).map(async (x) => x * 2);
@@ -645,6 +1315,128 @@ describe("ResultAsync", () => {
 	});
 
 	describe("types", () => {
+		test("andThrough and orThrough keep the value type and union the errors", () => {
+			const result = okAsync<number, "a">(1);
+			expectTypeOf(result.andThrough(() => errAsync<string, "b">("b"))).toEqualTypeOf<
+				ResultAsync<number, "a" | "b">
+			>();
+			expectTypeOf(result.orThrough(async () => ok("c"))).toEqualTypeOf<ResultAsync<number, "a">>();
+		});
+
+		test("bracket unions every error type", () => {
+			const result = ResultAsync.bracket(
+				() => okAsync<string, "acquire">("resource"),
+				() => okAsync<number, "use">(1),
+				() => okAsync<"release">(),
+			);
+			expectTypeOf(result).toEqualTypeOf<
+				ResultAsync<number, "acquire" | "use" | "release" | ReleaseError<"use", "release">>
+			>();
+		});
+
+		test("scope returns the body result type", () => {
+			const result = ResultAsync.scope((scope) =>
+				ResultAsync.all([
+					scope.run(() => okAsync<number, "a">(1)),
+					scope.run(() => ok<string, "b">("two")),
+				]),
+			);
+			expectTypeOf(result).toEqualTypeOf<ResultAsync<readonly [number, string], "a" | "b">>();
+		});
+
+		test("scope run preserves the child result type", () => {
+			ResultAsync.scope((scope) => {
+				const child = scope.run((signal) => {
+					expectTypeOf(signal).toEqualTypeOf<AbortSignal>();
+					return okAsync<number, "a">(1);
+				});
+				expectTypeOf(child).toEqualTypeOf<ResultAsync<number, "a">>();
+				return child;
+			});
+		});
+
+		test("try with mapError infers the error type", () => {
+			const result = ResultAsync.try(
+				async () => 42,
+				(caught) => new Error("wrapped", { cause: caught }),
+			);
+			expectTypeOf(result).toEqualTypeOf<ResultAsync<number, Error>>();
+		});
+
+		test("try with catchIf narrows the error type", () => {
+			const result = ResultAsync.try(async () => 42, {
+				signal: new AbortController().signal,
+				catchIf: (caught) => caught instanceof TypeError,
+			});
+			expectTypeOf(result).toEqualTypeOf<ResultAsync<number, TypeError>>();
+		});
+
+		test("try with a boolean catchIf uses the mapped type", () => {
+			const result = ResultAsync.try(async () => 42, {
+				catchIf: (caught) => String(caught).length > 0,
+				mapError: () => "failed" as const,
+			});
+			expectTypeOf(result).toEqualTypeOf<ResultAsync<number, "failed">>();
+		});
+
+		test("fromThrowable keeps the parameters and unwraps the promise", () => {
+			const wrapped = ResultAsync.fromThrowable(
+				async (id: string, retries?: number) => ({ id, retries }),
+				() => "failed" as const,
+			);
+			expectTypeOf(wrapped).toEqualTypeOf<
+				(
+					id: string,
+					retries?: number,
+				) => ResultAsync<{ id: string; retries: number | undefined }, "failed">
+			>();
+		});
+
+		test("context wraps the error type in ContextError", () => {
+			const result = okAsync<number, string>(1);
+			expectTypeOf(result.context("ctx")).toEqualTypeOf<
+				ResultAsync<number, ContextError<string>>
+			>();
+		});
+
+		test("catchTag removes the tag from the error type", () => {
+			const result = errAsync<number, { _tag: "A" } | { _tag: "B" }>({ _tag: "A" });
+			expectTypeOf(result.catchTag("A", () => okAsync(0))).toEqualTypeOf<
+				ResultAsync<number, { _tag: "B" }>
+			>();
+		});
+
+		test("catchIf removes the class from the error type", () => {
+			class NotFound extends TaggedError("NotFound") {}
+			class Unauthorized extends TaggedError("Unauthorized") {}
+			const result = errAsync<number, NotFound | Unauthorized>(new NotFound());
+			expectTypeOf(result.catchIf(Unauthorized, () => ok(0))).toEqualTypeOf<
+				ResultAsync<number, NotFound>
+			>();
+		});
+
+		test("matchTag resolves to the handlers' return type", () => {
+			const result = errAsync<number, { _tag: "A" } | { _tag: "B" }>({ _tag: "A" });
+			const matched = result.matchTag({
+				ok: (value) => value,
+				A: async () => 1,
+				B: () => 2,
+			});
+			expectTypeOf(matched).toEqualTypeOf<Promise<number>>();
+		});
+
+		test("timeout adds the onTimeout error to the error type", () => {
+			const result = okAsync<number, "oops">(42).timeout(10, () => "timeout" as const);
+			expectTypeOf(result).toEqualTypeOf<ResultAsync<number, "oops" | "timeout">>();
+		});
+
+		test("try passes an optional signal to the function", () => {
+			ResultAsync.try((signal) => {
+				expectTypeOf(signal).toEqualTypeOf<AbortSignal | undefined>();
+				return 42;
+			});
+		});
+
 		test("okAsync returns ResultAsync<T, E>", () => {
 			const result = okAsync(42);
 			expectTypeOf(result).toEqualTypeOf<ResultAsync<number, never>>();
@@ -911,6 +1703,83 @@ describe("ResultAsync", () => {
 			}
 		});
 
+		test("any infers union of Ok types and tuple of Err types", () => {
+			const result = ResultAsync.any([ok<number, "a">(1), okAsync<string, "b">("hi")]);
+			expectTypeOf(result).toEqualTypeOf<ResultAsync<number | string, readonly ["a", "b"]>>();
+		});
+
+		test("allSettled infers tuple of Results", async () => {
+			const settled = await ResultAsync.allSettled([
+				ok<number, "a">(1),
+				okAsync<string, "b">("hi"),
+			]);
+			expectTypeOf(settled[0]).toEqualTypeOf<Result<number, "a">>();
+			expectTypeOf(settled[1]).toEqualTypeOf<Result<string, "b">>();
+		});
+
+		test("allSettled infers array type for homogeneous array", () => {
+			const results: ResultAsync<number, string>[] = [okAsync(1), okAsync(2)];
+			expectTypeOf(ResultAsync.allSettled(results)).toEqualTypeOf<
+				Promise<Result<number, string>[]>
+			>();
+		});
+
+		test("partition infers unions of Ok and Err types for mixed inputs", async () => {
+			const partitioned = await ResultAsync.partition([
+				ok<number, "a">(1),
+				okAsync<string, "b">("hi"),
+			]);
+			expectTypeOf(partitioned.oks).toEqualTypeOf<{ index: number; value: number | string }[]>();
+			expectTypeOf(partitioned.errs).toEqualTypeOf<{ index: number; error: "a" | "b" }[]>();
+		});
+
+		test("traverse infers array of Ok values and Err type", () => {
+			const result = ResultAsync.traverse([1, 2], (n) => ok<string, "bad">(String(n)));
+			expectTypeOf(result).toEqualTypeOf<ResultAsync<string[], "bad">>();
+		});
+
+		test("traverse in collect mode infers array of Err values", () => {
+			const result = ResultAsync.traverse([1, 2], (n) => okAsync<string, "bad">(String(n)), {
+				mode: "collect",
+			});
+			expectTypeOf(result).toEqualTypeOf<ResultAsync<string[], "bad"[]>>();
+		});
+
+		test("retry wraps the error type in RetryError", () => {
+			const result = ResultAsync.retry(() => errAsync<number, "bad">("bad"), { attempts: 3 });
+			expectTypeOf(result).toEqualTypeOf<ResultAsync<number, RetryError<"bad">>>();
+		});
+
+		test("allFromObject infers keyed Ok type and union of Err types", () => {
+			const result = ResultAsync.allFromObject({
+				user: okAsync<{ name: string }, "userErr">({ name: "Alice" }),
+				prefs: ok<{ theme: string }, "prefsErr">({ theme: "dark" }),
+			});
+			expectTypeOf(result).toEqualTypeOf<
+				ResultAsync<{ user: { name: string }; prefs: { theme: string } }, "userErr" | "prefsErr">
+			>();
+		});
+
+		test("allErrors infers tuple Ok type and array of Err union", async () => {
+			const result = await ResultAsync.allErrors([ok<number, "a">(1), okAsync<string, "b">("hi")]);
+			if (result.isOk()) {
+				expectTypeOf(result.value[0]).toBeNumber();
+				expectTypeOf(result.value[1]).toBeString();
+			} else {
+				expectTypeOf(result.error).toEqualTypeOf<("a" | "b")[]>();
+			}
+		});
+
+		test("allErrorsFromObject infers keyed Ok and Err types", () => {
+			const result = ResultAsync.allErrorsFromObject({
+				name: ok<string, "badName">("Alice"),
+				age: okAsync<number, "badAge">(30),
+			});
+			expectTypeOf(result).toEqualTypeOf<
+				ResultAsync<{ name: string; age: number }, { name?: "badName"; age?: "badAge" }>
+			>();
+		});
+
 		test("all infers union of Err types for mixed Result and ResultAsync", async () => {
 			const result = await ResultAsync.all([ok<number, "a">(1), okAsync<string, "b">("hi")]);
 			if (result.isErr()) {
@@ -1006,4 +1875,422 @@ describe("ResultAsync", () => {
 			expect(await result.unwrap()).toEqual([1, 2, 3]);
 		});
 	});
+
+	describe("any", () => {
+		test("returns the first Ok to resolve", async () => {
+			const result = ResultAsync.any([
+				ResultAsync.try(async () => {
+					await new Promise((r) => setTimeout(r, 20));
+					return "slow";
+				}),
+				errAsync("bad"),
+				ResultAsync.try(async () => {
+					await new Promise((r) => setTimeout(r, 5));
+					return "fast";
+				}),
+			]);
+			expect(await result.unwrap()).toBe("fast");
+		});
+
+		test("resolves as soon as the first Ok arrives", async () => {
+			let slowResolved = false;
+			const result = ResultAsync.any([
+				ResultAsync.try(async () => {
+					await new Promise((r) => setTimeout(r, 100));
+					slowResolved = true;
+					return 1;
+				}),
+				okAsync(2),
+			]);
+			expect(await result.unwrap()).toBe(2);
+			expect(slowResolved).toBe(false);
+		});
+
+		test("returns Err with every error in input order when all are Err", async () => {
+			const result = ResultAsync.any([
+				ResultAsync.try<number, string>(async () => {
+					await new Promise((r) => setTimeout(r, 10));
+					throw "slow";
+				}),
+				err("sync"),
+				errAsync("async"),
+			]);
+			expect(await result.unwrapErr()).toEqual(["slow", "sync", "async"]);
+		});
+
+		test("returns Err with empty array for empty input", async () => {
+			const result = ResultAsync.any([]);
+			expect(await result.unwrapErr()).toEqual([]);
+		});
+
+		test("rejects when an input rejects before any Ok", async () => {
+			const defect = new Error("defect");
+			const result = ResultAsync.any([
+				errAsync("bad"),
+				ResultAsync.fromPromise<number, string>(Promise.reject(defect)),
+			]);
+			await expect(result.then()).rejects.toBe(defect);
+		});
+	});
+
+	describe("allSettled", () => {
+		test("resolves to every Result in input order", async () => {
+			const settled = await ResultAsync.allSettled([
+				ResultAsync.try(async () => {
+					await new Promise((r) => setTimeout(r, 10));
+					return 1;
+				}),
+				errAsync("bad"),
+				ok(3),
+			]);
+			expect(settled[0].unwrap()).toBe(1);
+			expect(settled[1].unwrapErr()).toBe("bad");
+			expect(settled[2].unwrap()).toBe(3);
+		});
+
+		test("does not short-circuit on Err", async () => {
+			let slowResolved = false;
+			await ResultAsync.allSettled([
+				errAsync("fast-fail"),
+				ResultAsync.try(async () => {
+					await new Promise((r) => setTimeout(r, 10));
+					slowResolved = true;
+				}),
+			]);
+			expect(slowResolved).toBe(true);
+		});
+
+		test("waits for every input before rejecting with the first rejection", async () => {
+			const defect = new Error("defect");
+			let slowResolved = false;
+			const settled = ResultAsync.allSettled([
+				ok(1),
+				ResultAsync.fromPromise<number, string>(Promise.reject(defect)),
+				ResultAsync.try(async () => {
+					await new Promise((r) => setTimeout(r, 10));
+					slowResolved = true;
+					return 3;
+				}),
+				ResultAsync.fromPromise<number, string>(Promise.reject(new Error("later"))),
+			]);
+			await expect(settled).rejects.toBe(defect);
+			expect(slowResolved).toBe(true);
+		});
+
+		test("resolves to empty array for empty input", async () => {
+			expect(await ResultAsync.allSettled([])).toEqual([]);
+		});
+	});
+
+	describe("partition", () => {
+		test("splits mixed Ok and Err values keeping their indices", async () => {
+			const { oks, errs } = await ResultAsync.partition([
+				okAsync(1),
+				err("bad"),
+				ok(3),
+				errAsync("worse"),
+			]);
+			expect(oks).toEqual([
+				{ index: 0, value: 1 },
+				{ index: 2, value: 3 },
+			]);
+			expect(errs).toEqual([
+				{ index: 1, error: "bad" },
+				{ index: 3, error: "worse" },
+			]);
+		});
+	});
+
+	describe("traverse", () => {
+		const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+		test("maps every item and preserves input order", async () => {
+			const result = ResultAsync.traverse([30, 10, 0], (ms) =>
+				ResultAsync.try(async () => {
+					await delay(ms);
+					return ms;
+				}),
+			);
+			expect(await result.unwrap()).toEqual([30, 10, 0]);
+		});
+
+		test("passes the index to the function", async () => {
+			const result = ResultAsync.traverse(["a", "b"], (item, index) => ok(`${item}${index}`));
+			expect(await result.unwrap()).toEqual(["a0", "b1"]);
+		});
+
+		test("accepts any iterable", async () => {
+			const result = ResultAsync.traverse(new Set([1, 2, 3]), (n) => ok(n * 2));
+			expect(await result.unwrap()).toEqual([2, 4, 6]);
+		});
+
+		test("never exceeds the concurrency limit", async () => {
+			let active = 0;
+			let peak = 0;
+			const result = ResultAsync.traverse(
+				Array.from({ length: 10 }, (_, i) => i),
+				(n) =>
+					ResultAsync.try(async () => {
+						active += 1;
+						peak = Math.max(peak, active);
+						await delay(1);
+						active -= 1;
+						return n;
+					}),
+				{ concurrency: 3 },
+			);
+			expect(await result.unwrap()).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+			expect(peak).toBe(3);
+		});
+
+		test("stops scheduling new work after the first Err", async () => {
+			const started: number[] = [];
+			const result = ResultAsync.traverse(
+				[1, 2, 3, 4],
+				(n) => {
+					started.push(n);
+					return n === 2 ? errAsync(`failed ${n}`) : okAsync(n);
+				},
+				{ concurrency: 1 },
+			);
+			expect(await result.unwrapErr()).toBe("failed 2");
+			expect(started).toEqual([1, 2]);
+		});
+
+		test("collects every error in input order in collect mode", async () => {
+			const started: number[] = [];
+			const result = ResultAsync.traverse(
+				[1, 2, 3, 4],
+				(n) => {
+					started.push(n);
+					return n % 2 === 0 ? errAsync(`failed ${n}`) : okAsync(n);
+				},
+				{ concurrency: 2, mode: "collect" },
+			);
+			expect(await result.unwrapErr()).toEqual(["failed 2", "failed 4"]);
+			expect(started).toEqual([1, 2, 3, 4]);
+		});
+
+		test("returns Ok with every value in collect mode when nothing fails", async () => {
+			const result = ResultAsync.traverse([1, 2], (n) => ok(n), { mode: "collect" });
+			expect(await result.unwrap()).toEqual([1, 2]);
+		});
+
+		test("returns Ok with empty array for empty input", async () => {
+			const result = ResultAsync.traverse([], () => ok(1));
+			expect(await result.unwrap()).toEqual([]);
+		});
+
+		test("rejects and stops scheduling when fn rejects", async () => {
+			const defect = new Error("defect");
+			const started: number[] = [];
+			const result = ResultAsync.traverse(
+				[1, 2, 3],
+				(n) => {
+					started.push(n);
+					return n === 1 ? ResultAsync.fromPromise<number, string>(Promise.reject(defect)) : ok(n);
+				},
+				{ concurrency: 1 },
+			);
+			await expect(result.then()).rejects.toBe(defect);
+			expect(started).toEqual([1]);
+		});
+
+		test("rejects when fn throws", async () => {
+			const defect = new Error("defect");
+			const result = ResultAsync.traverse(
+				[1, 2],
+				(n) => {
+					if (n === 2) {
+						throw defect;
+					}
+
+					return ok(n);
+				},
+				{ concurrency: 1 },
+			);
+			await expect(result.then()).rejects.toBe(defect);
+		});
+
+		test("throws a RangeError for an invalid concurrency", () => {
+			for (const concurrency of [0, -1, 1.5, Number.NaN]) {
+				expect(() => ResultAsync.traverse([1], (n) => ok(n), { concurrency })).toThrow(RangeError);
+			}
+		});
+	});
+
+	describe("retry", () => {
+		const noSleep = () => Promise.resolve();
+
+		test("returns the first success without retrying", async () => {
+			let calls = 0;
+			const result = ResultAsync.retry(
+				() => {
+					calls += 1;
+					return okAsync(42);
+				},
+				{ attempts: 3, sleep: noSleep },
+			);
+			expect(await result.unwrap()).toBe(42);
+			expect(calls).toBe(1);
+		});
+
+		test("retries until an attempt succeeds", async () => {
+			const result = ResultAsync.retry(
+				(attempt) => (attempt < 3 ? err(`failed ${attempt}`) : ok(attempt)),
+				{ attempts: 5, sleep: noSleep },
+			);
+			expect(await result.unwrap()).toBe(3);
+		});
+
+		test("gives up after the attempt limit with the last error and history", async () => {
+			const result = ResultAsync.retry((attempt) => errAsync(`failed ${attempt}`), {
+				attempts: 3,
+				backoff: Backoff.constant(10),
+				sleep: noSleep,
+			});
+			const error = await result.unwrapErr();
+			expect(error.error).toBe("failed 3");
+			expect(error.attempts).toEqual([
+				{ attempt: 1, error: "failed 1", delay: 10 },
+				{ attempt: 2, error: "failed 2", delay: 10 },
+				{ attempt: 3, error: "failed 3", delay: 0 },
+			]);
+		});
+
+		test("sleeps for the backoff delay between attempts", async () => {
+			const sleeps: number[] = [];
+			await ResultAsync.retry(() => err("bad"), {
+				attempts: 4,
+				backoff: Backoff.exponential({ initial: 100 }),
+				sleep: async (ms) => {
+					sleeps.push(ms);
+				},
+			});
+			expect(sleeps).toEqual([100, 200, 400]);
+		});
+
+		test("stops early when shouldRetry returns false", async () => {
+			let calls = 0;
+			const result = ResultAsync.retry(
+				() => {
+					calls += 1;
+					return err(calls === 1 ? "transient" : "fatal");
+				},
+				{
+					attempts: 5,
+					shouldRetry: (error) => error === "transient",
+					sleep: noSleep,
+				},
+			);
+			expect((await result.unwrapErr()).error).toBe("fatal");
+			expect(calls).toBe(2);
+		});
+
+		test("uses a real timer by default", async () => {
+			const start = Date.now();
+			await ResultAsync.retry(() => err("bad"), {
+				attempts: 2,
+				backoff: Backoff.constant(20),
+			});
+			expect(Date.now() - start).toBeGreaterThanOrEqual(15);
+		});
+
+		test("throws a RangeError for an invalid attempt limit", () => {
+			for (const attempts of [0, -1, 1.5, Number.NaN]) {
+				expect(() => ResultAsync.retry(() => ok(1), { attempts })).toThrow(RangeError);
+			}
+		});
+	});
+
+	describe("allFromObject", () => {
+		test("returns Ok with object of values when all are Ok", async () => {
+			const result = ResultAsync.allFromObject({ a: okAsync(1), b: ok("hello") });
+			expect(await result.unwrap()).toEqual({ a: 1, b: "hello" });
+		});
+
+		test("returns the first Err to resolve", async () => {
+			const result = ResultAsync.allFromObject({ a: okAsync(1), b: errAsync("bad") });
+			expect(await result.unwrapErr()).toBe("bad");
+		});
+
+		test("resolves all keys concurrently", async () => {
+			const started: string[] = [];
+			const delayed = (key: string, value: number) =>
+				ResultAsync.try(async () => {
+					started.push(key);
+					await new Promise((r) => setTimeout(r, 10));
+					return value;
+				});
+
+			const pending = ResultAsync.allFromObject({ a: delayed("a", 1), b: delayed("b", 2) });
+			await Promise.resolve();
+			expect(started).toEqual(["a", "b"]);
+			expect(await pending.unwrap()).toEqual({ a: 1, b: 2 });
+		});
+
+		test("returns Ok with empty object for empty input", async () => {
+			const result = ResultAsync.allFromObject({});
+			expect(await result.unwrap()).toEqual({});
+		});
+	});
+
+	describe("allErrors", () => {
+		test("returns Ok with tuple of values when all are Ok", async () => {
+			const result = ResultAsync.allErrors([okAsync(1), ok("hello"), okAsync(true)]);
+			expect(await result.unwrap()).toEqual([1, "hello", true]);
+		});
+
+		test("collects every Err in input order", async () => {
+			const result = ResultAsync.allErrors([
+				ResultAsync.try<number, string>(async () => {
+					await new Promise((r) => setTimeout(r, 10));
+					throw "slow";
+				}),
+				okAsync(2),
+				err("fast"),
+			]);
+			expect(await result.unwrapErr()).toEqual(["slow", "fast"]);
+		});
+
+		test("waits for every input to settle", async () => {
+			let slowResolved = false;
+			const result = ResultAsync.allErrors([
+				errAsync("fast-fail"),
+				ResultAsync.try(async () => {
+					await new Promise((r) => setTimeout(r, 10));
+					slowResolved = true;
+					return 1;
+				}),
+			]);
+			expect(await result.unwrapErr()).toEqual(["fast-fail"]);
+			expect(slowResolved).toBe(true);
+		});
+
+		test("returns Ok with empty array for empty input", async () => {
+			const result = ResultAsync.allErrors([]);
+			expect(await result.unwrap()).toEqual([]);
+		});
+	});
+
+	describe("allErrorsFromObject", () => {
+		test("returns Ok with object of values when all are Ok", async () => {
+			const result = ResultAsync.allErrorsFromObject({ name: okAsync("Alice"), age: ok(30) });
+			expect(await result.unwrap()).toEqual({ name: "Alice", age: 30 });
+		});
+
+		test("collects every Err keyed by field name", async () => {
+			const result = ResultAsync.allErrorsFromObject({
+				name: errAsync("required"),
+				age: okAsync(30),
+				email: err("invalid"),
+			});
+			expect(await result.unwrapErr()).toEqual({ name: "required", email: "invalid" });
+		});
+
+		test("returns Ok with empty object for empty input", async () => {
+			const result = ResultAsync.allErrorsFromObject({});
+			expect(await result.unwrap()).toEqual({});
+		});
+	});
 });
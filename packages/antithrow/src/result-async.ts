@@ -1,13 +1,145 @@
+import { raceAbort } from "./abort.js";
+import { brandOf, resultAsyncBrand } from "./brand.js";
+import type { CatchFilter, CatchGuard, CatchHandler } from "./catch.js";
+import { toError } from "./catch.js";
 import type { AsyncChainGenerator } from "./chain.js";
-import type { Err, Ok, Result } from "./result.js";
-import { err, ok } from "./result.js";
-import type { AnyResult, ErrUnion, InferErr, InferOk, OkTuple } from "./types.js";
+import { ContextError } from "./context.js";
+import type { Inspect } from "./display.js";
+import { inspectCustom } from "./display.js";
+import type { Option } from "./option.js";
+import { ReleaseError } from "./release-error.js";
+import type { Err, Ok } from "./result.js";
+import { err, ok, Result } from "./result.js";
+import type { Backoff, RetryAttempt } from "./retry.js";
+import { RetryError } from "./retry.js";
+import type {
+	AnyResult,
+	AnyResultRecord,
+	ErrRecord,
+	ErrRecordUnion,
+	ErrTuple,
+	ErrUnion,
+	InferErr,
+	InferOk,
+	OkRecord,
+	OkTuple,
+	OkUnion,
+	Partitioned,
+	ResultAsyncFunction,
+	SettledTuple,
+	Tag,
+	TagHandlers,
+	Throwable,
+	WithTag,
+} from "./types.js";
 
 /**
  * A type that can be either a value or a promise-like containing that value.
  */
 type MaybePromise<T> = T | PromiseLike<T>;
 
+/**
+ * Options for {@link ResultAsync.retry}.
+ */
+interface RetryOptions<E> {
+	/**
+	 * The maximum number of attempts, including the first one. Must be a positive integer.
+	 */
+	attempts: number;
+	/**
+	 * The delay policy between attempts. Defaults to retrying immediately.
+	 */
+	backoff?: Backoff;
+	/**
+	 * Decides whether a failed attempt should be retried. Defaults to retrying every error.
+	 */
+	shouldRetry?: (error: E, attempt: number) => boolean;
+	/**
+	 * Waits for the given number of milliseconds. Defaults to a `setTimeout`-based sleep.
+	 * Inject a fake to make tests deterministic.
+	 */
+	sleep?: (ms: number) => PromiseLike<void>;
+}
+
+/**
+ * Options for {@link ResultAsync.try}.
+ */
+interface TryOptions {
+	/**
+	 * Cancels the operation. Once aborted, the result resolves to an `Err` containing
+	 * `signal.reason` without waiting for the function to settle. The signal is also passed to
+	 * the function so it can stop its own work.
+	 */
+	signal?: AbortSignal;
+}
+
+/**
+ * The handle passed to the body of {@link ResultAsync.scope}, used to start child operations.
+ */
+interface Scope {
+	/**
+	 * Aborted as soon as any child, or the body itself, fails.
+	 */
+	readonly signal: AbortSignal;
+	/**
+	 * Starts a child operation bound to the scope. The operation receives the scope's signal
+	 * and should pass it on to any cancellable work. If the operation resolves to an `Err` or
+	 * throws, the signal is aborted with that error as the reason, cancelling every sibling.
+	 *
+	 * @template U - The success type of the child.
+	 * @template F - The error type of the child.
+	 *
+	 * @param fn - The child operation.
+	 *
+	 * @returns A `ResultAsync` containing the child's result.
+	 */
+	run<U, F>(
+		fn: (signal: AbortSignal) => MaybePromise<Result<U, F>> | ResultAsync<U, F>,
+	): ResultAsync<U, F>;
+}
+
+/**
+ * Releases a resource after the body of {@link ResultAsync.bracket} threw, then rethrows the
+ * body's exception, combined into a {@link ReleaseError} if releasing fails too.
+ */
+async function rethrowAfterRelease<G>(
+	error: unknown,
+	release: () => MaybePromise<Result<unknown, G>> | ResultAsync<unknown, G>,
+): Promise<never> {
+	let released: Result<unknown, G>;
+	try {
+		released = await release();
+	} catch (releaseError) {
+		throw new ReleaseError(error, releaseError);
+	}
+
+	throw released.isOk() ? error : new ReleaseError(error, released.error);
+}
+
+/**
+ * The longest delay `setTimeout` supports. Longer delays fire after 1 ms instead.
+ */
+const MAX_TIMEOUT = 2_147_483_647;
+
+const sleepFor = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Options for {@link ResultAsync.traverse}.
+ */
+interface TraverseOptions {
+	/**
+	 * The maximum number of operations in flight at once: a positive integer, or `Infinity`
+	 * (the default) for no limit.
+	 */
+	concurrency?: number;
+	/**
+	 * How to handle errors:
+	 * - `"fail-fast"` (default): stop scheduling new work after the first `Err` and resolve to it.
+	 * - `"collect"`: run every operation and resolve to an `Err` containing every error.
+	 */
+	mode?: "fail-fast" | "collect";
+}
+
 interface ResultAsyncMethods<T, E> {
 	/**
 	 * Type predicate for `Ok`.
@@ -67,7 +199,8 @@ interface ResultAsyncMethods<T, E> {
 	isErrAnd(fn: (error: E) => MaybePromise<boolean>): Promise<boolean>;
 
 	/**
-	 * Returns the contained `Ok` value. Throws if the result is `Err`.
+	 * Returns the contained `Ok` value. Rejects with an `UnwrapError` whose `cause` is the
+	 * error if the result is `Err`.
 	 *
 	 * @example
 	 * ```ts
@@ -79,7 +212,8 @@ interface ResultAsyncMethods<T, E> {
 	 */
 	unwrap(): Promise<T>;
 	/**
-	 * Returns the contained `Err` value. Throws if the result is `Ok`.
+	 * Returns the contained `Err` value. Rejects with an `UnwrapError` holding the value if
+	 * the result is `Ok`.
 	 *
 	 * @example
 	 * ```ts
@@ -91,7 +225,8 @@ interface ResultAsyncMethods<T, E> {
 	 */
 	unwrapErr(): Promise<E>;
 	/**
-	 * Returns the contained `Ok` value. Throws with the provided message if the result is `Err`.
+	 * Returns the contained `Ok` value. Rejects with an `UnwrapError` with the provided
+	 * message, whose `cause` is the error, if the result is `Err`.
 	 *
 	 * @example
 	 * ```ts
@@ -105,7 +240,8 @@ interface ResultAsyncMethods<T, E> {
 	 */
 	expect(message: string): Promise<T>;
 	/**
-	 * Returns the contained `Err` value. Throws with the provided message if the result is `Ok`.
+	 * Returns the contained `Err` value. Rejects with an `UnwrapError` with the provided
+	 * message, holding the value, if the result is `Ok`.
 	 *
 	 * @example
 	 * ```ts
@@ -175,6 +311,35 @@ interface ResultAsyncMethods<T, E> {
 	 * @returns The result of the transformation.
 	 */
 	mapErr<F>(fn: (error: E) => MaybePromise<F>): ResultAsync<T, F>;
+	/**
+	 * Wraps the `Err` value in a {@link ContextError} describing what was being done, keeping the
+	 * original error as its `cause`. Use {@link formatErrorChain} to render the chain for logs.
+	 *
+	 * @example
+	 * ```ts
+	 * const config = readFile(path, "utf8").context("loading user config");
+	 * // ResultAsync<string, ContextError<NodeJS.ErrnoException>>
+	 * ```
+	 *
+	 * @param context - What was being done when the error occurred.
+	 *
+	 * @returns The original `Ok`, or an `Err` containing a `ContextError`.
+	 */
+	context(context: string): ResultAsync<T, ContextError<E>>;
+	/**
+	 * Like {@link context}, but computes the description from the error, only when there is one.
+	 *
+	 * @example
+	 * ```ts
+	 * const config = readFile(path, "utf8").withContext((e) => `loading ${path} (${e.code})`);
+	 * // ResultAsync<string, ContextError<NodeJS.ErrnoException>>
+	 * ```
+	 *
+	 * @param fn - Computes what was being done when the error occurred.
+	 *
+	 * @returns The original `Ok`, or an `Err` containing a `ContextError`.
+	 */
+	withContext(fn: (error: E) => string): ResultAsync<T, ContextError<E>>;
 	/**
 	 * Transforms the `Ok` value using the provided function, or returns the default value if `Err`.
 	 *
@@ -270,6 +435,54 @@ interface ResultAsyncMethods<T, E> {
 	 * @returns The result of the function call, or the original `Ok`.
 	 */
 	orElse<F>(fn: (error: E) => MaybePromise<Result<T, F>> | ResultAsync<T, F>): ResultAsync<T, F>;
+	/**
+	 * Recovers from the errors with the given `_tag`, propagating every other error. The tag is
+	 * removed from the error type, so later steps only see the errors that remain.
+	 *
+	 * @example
+	 * ```ts
+	 * const user = fetchUser(id).catchTag("NotFound", () => okAsync(guest));
+	 * // ResultAsync<User, Unauthorized>
+	 * ```
+	 *
+	 * @template K - The tag to recover from.
+	 * @template F - The error type of the recovery result.
+	 *
+	 * @param tag - The `_tag` of the errors to recover from.
+	 * @param fn - The function to call with a matching `Err` value.
+	 *
+	 * @returns The result of the function call, or the original result.
+	 */
+	catchTag<K extends Tag<E>, F>(
+		tag: K,
+		fn: (error: Extract<E, WithTag<K>>) => MaybePromise<Result<T, F>> | ResultAsync<T, F>,
+	): ResultAsync<T, Exclude<E, WithTag<K>> | F>;
+	/**
+	 * Recovers from the errors that are instances of the given class, propagating every other
+	 * error. The class is removed from the error type, so later steps only see the errors that
+	 * remain.
+	 *
+	 * The error type is narrowed structurally: classes without distinguishing fields (such as
+	 * the built-in `Error` subclasses) are indistinguishable to TypeScript and all get removed.
+	 *
+	 * @example
+	 * ```ts
+	 * const user = fetchUser(id).catchIf(NotFound, () => okAsync(guest));
+	 * // ResultAsync<User, Unauthorized>
+	 * ```
+	 *
+	 * @template C - The type of the errors to recover from.
+	 * @template F - The error type of the recovery result.
+	 *
+	 * @param ctor - The class of the errors to recover from, checked with `instanceof`.
+	 * @param fn - The function to call with a matching `Err` value.
+	 *
+	 * @returns The result of the function call, or the original result.
+	 */
+	catchIf<C, F>(
+		ctor: abstract new (...args: never[]) => C,
+		fn: (error: C) => MaybePromise<Result<T, F>> | ResultAsync<T, F>,
+	): ResultAsync<T, Exclude<E, C> | F>;
 
 	/**
 	 * Pattern matches on the result, calling the appropriate handler and returning its value.
@@ -291,6 +504,29 @@ interface ResultAsyncMethods<T, E> {
 		err: (error: E) => MaybePromise<U>;
 	}): Promise<U>;
 
+	/**
+	 * Pattern matches on the result like {@link match}, with one handler per error `_tag`
+	 * instead of a single `err` handler. The handlers must cover every tag in `E`.
+	 *
+	 * @example
+	 * ```ts
+	 * const status = await fetchUser(id).matchTag({
+	 *   ok: () => 200,
+	 *   NotFound: () => 404,
+	 *   Unauthorized: () => 401,
+	 * });
+	 * ```
+	 *
+	 * @template U - The type returned by every handler.
+	 *
+	 * @param handlers - The `ok` handler, and a handler for each error tag.
+	 *
+	 * @returns A promise that resolves to the result of the handler call.
+	 */
+	matchTag<U>(
+		handlers: { ok: (value: T) => MaybePromise<U> } & TagHandlers<E, MaybePromise<U>>,
+	): Promise<U>;
+
 	/**
 	 * Calls the provided function with the `Ok` value for side effects, returning the original result.
 	 *
@@ -319,6 +555,45 @@ interface ResultAsyncMethods<T, E> {
 	 * @returns The original result, unchanged.
 	 */
 	inspectErr(fn: (error: E) => MaybePromise<unknown>): ResultAsync<T, E>;
+	/**
+	 * Calls the provided function with the `Ok` value for a check or side effect that can fail,
+	 * such as a validation or an audit log write. Resolves to its `Err` if it fails, and to the
+	 * original result otherwise: unlike `andThen`, its `Ok` value is discarded.
+	 *
+	 * @example
+	 * ```ts
+	 * okAsync(order).andThrough(writeAuditLog); // okAsync(order), or errAsync(WriteError)
+	 * errAsync("oops").andThrough(writeAuditLog); // errAsync("oops"), without calling writeAuditLog
+	 * ```
+	 *
+	 * @template F - The type of the function's error.
+	 *
+	 * @param fn - The function to call with the `Ok` value.
+	 *
+	 * @returns The function's `Err`, or the original result.
+	 */
+	andThrough<F>(
+		fn: (value: T) => MaybePromise<Result<unknown, F>> | ResultAsync<unknown, F>,
+	): ResultAsync<T, E | F>;
+	/**
+	 * Calls the provided function with the `Err` value for a side effect that can fail, such as
+	 * reporting the error. Resolves to its `Err` if it fails, and to the original result otherwise.
+	 *
+	 * @example
+	 * ```ts
+	 * errAsync(error).orThrough(reportError); // errAsync(error), or errAsync(ReportError)
+	 * okAsync(42).orThrough(reportError); // okAsync(42), without calling reportError
+	 * ```
+	 *
+	 * @template F - The type of the function's error.
+	 *
+	 * @param fn - The function to call with the `Err` value.
+	 *
+	 * @returns The function's `Err`, or the original result.
+	 */
+	orThrough<F>(
+		fn: (error: E) => MaybePromise<Result<unknown, F>> | ResultAsync<unknown, F>,
+	): ResultAsync<T, E | F>;
 
 	/**
 	 * Flattens a nested `ResultAsync<Result<U, F>, E>` into `ResultAsync<U, E | F>`.
@@ -333,6 +608,54 @@ interface ResultAsyncMethods<T, E> {
 	 * @returns The flattened result.
 	 */
 	flatten<U, F>(this: ResultAsync<Result<U, F>, E>): ResultAsync<U, E | F>;
+
+	/**
+	 * Resolves to an `Err` computed by `onTimeout` if this result has not settled within `ms`
+	 * milliseconds. The underlying operation is not cancelled; pass an `AbortSignal` to it
+	 * (see {@link ResultAsync.try}) to stop the work itself.
+	 *
+	 * If this result rejects before the time limit, or `onTimeout` throws, the returned result
+	 * rejects with the same reason. A time limit of `Infinity` means no time limit.
+	 *
+	 * @example
+	 * ```ts
+	 * const user = fetchUser(id).timeout(5000, () => new TimeoutError("fetchUser"));
+	 * // ResultAsync<User, FetchError | TimeoutError>
+	 * ```
+	 *
+	 * @param ms - The time limit in milliseconds.
+	 * @param onTimeout - Computes the error to use when the time limit is reached.
+	 *
+	 * @returns A `ResultAsync` that settles with this result, or the timeout error.
+	 *
+	 * @throws {RangeError} If `ms` is not between 0 and 2147483647, or `Infinity`.
+	 */
+	timeout<F>(ms: number, onTimeout: () => F): ResultAsync<T, E | F>;
+
+	/**
+	 * Converts this result into an `Option` of its `Ok` value, discarding the error.
+	 *
+	 * @example
+	 * ```ts
+	 * await okAsync(42).ok(); // some(42)
+	 * await errAsync("oops").ok(); // none()
+	 * ```
+	 *
+	 * @returns A promise that resolves to `Some` containing the `Ok` value, or `None` if `Err`.
+	 */
+	ok(): Promise<Option<T>>;
+	/**
+	 * Converts this result into an `Option` of its `Err` value, discarding the success value.
+	 *
+	 * @example
+	 * ```ts
+	 * await okAsync(42).err(); // none()
+	 * await errAsync("oops").err(); // some("oops")
+	 * ```
+	 *
+	 * @returns A promise that resolves to `Some` containing the `Err` value, or `None` if `Ok`.
+	 */
+	err(): Promise<Option<E>>;
 }
 
 export class ResultAsync<T, E> implements PromiseLike<Result<T, E>>, ResultAsyncMethods<T, E> {
@@ -342,6 +665,25 @@ export class ResultAsync<T, E> implements PromiseLike<Result<T, E>>, ResultAsync
 		this.promise = promise;
 	}
 
+	static {
+		// See `Ok` for why these are set on the prototype.
+		Object.defineProperty(ResultAsync.prototype, resultAsyncBrand, { value: true });
+		// Renders as `ResultAsync { <pending> }`, `ResultAsync { Ok(42) }` or
+		// `ResultAsync { <rejected> ... }`, using the runtime's own view of the promise's state.
+		Object.defineProperty(ResultAsync.prototype, inspectCustom, {
+			value(
+				this: ResultAsync<unknown, unknown>,
+				_depth: number,
+				options: unknown,
+				inspect?: Inspect,
+			) {
+				return inspect
+					? inspect(this.promise, options).replace("Promise", "ResultAsync")
+					: "ResultAsync";
+			},
+		});
+	}
+
 	private wrap<U, F>(
 		fn: (result: Result<T, E>) => MaybePromise<Result<U, F>> | ResultAsync<U, F>,
 	): ResultAsync<U, F> {
@@ -394,32 +736,748 @@ export class ResultAsync<T, E> implements PromiseLike<Result<T, E>>, ResultAsync
 		);
 	}
 
+	/**
+	 * Returns the first `Ok` to resolve among multiple `Result` or `ResultAsync` values, or an
+	 * `Err` containing a tuple of every error if all of them failed. Similar to `Promise.any`.
+	 *
+	 * All results are awaited concurrently. The combined result resolves as soon as the first
+	 * `Ok` arrives, without waiting for the remaining inputs. If an input rejects before then,
+	 * the combined result rejects with the same reason.
+	 *
+	 * @example
+	 * ```ts
+	 * const value = ResultAsync.any([readCache(key), readReplica(key), readPrimary(key)]);
+	 *
+	 * await ResultAsync.any([errAsync("a"), okAsync(2)]).unwrap(); // 2
+	 * await ResultAsync.any([errAsync("a"), err("b")]).unwrapErr(); // ["a", "b"]
+	 * ```
+	 *
+	 * @template T - A readonly tuple or array of `Result` or `ResultAsync` values.
+	 *
+	 * @param results - The `Result` or `ResultAsync` values to try.
+	 *
+	 * @returns A `ResultAsync` containing the first `Ok` to resolve, or an `Err` containing every
+	 * error in input order.
+	 */
+	static any<const T extends readonly AnyResult[]>(
+		results: T,
+	): ResultAsync<OkUnion<T>, ErrTuple<T>>;
+	static any<T, E>(results: readonly AnyResult<T, E>[]): ResultAsync<T, E[]>;
+	static any(results: readonly AnyResult[]): ResultAsync<unknown, unknown[]> {
+		return ResultAsync.fromPromise(
+			new Promise((resolve, reject) => {
+				const errors: unknown[] = new Array(results.length);
+				let remaining = results.length;
+				if (remaining === 0) {
+					resolve(err(errors));
+					return;
+				}
+
+				for (const [i, r] of results.entries()) {
+					Promise.resolve(r).then((result) => {
+						if (result.isOk()) {
+							// Cast avoids allocating a new Ok; the error type is phantom here.
+							resolve(result as Ok<unknown, never>);
+							return;
+						}
+
+						errors[i] = result.error;
+						remaining -= 1;
+						if (remaining === 0) {
+							resolve(err(errors));
+						}
+					}, reject);
+				}
+			}),
+		);
+	}
+
+	/**
+	 * Combines an object of `Result` or `ResultAsync` values into a single `ResultAsync`
+	 * containing an object of all `Ok` values, or the first `Err` to resolve. The object-shaped
+	 * counterpart of {@link ResultAsync.all}.
+	 *
+	 * All fields are awaited concurrently. If any field is `Err`, the combined result resolves
+	 * to that `Err` as soon as it is encountered.
+	 *
+	 * @example
+	 * ```ts
+	 * const combined = ResultAsync.allFromObject({ user: fetchUser(id), prefs: fetchPrefs(id) });
+	 * // ResultAsync<{ user: User; prefs: Prefs }, UserError | PrefsError>
+	 *
+	 * await ResultAsync.allFromObject({ a: okAsync(1), b: ok("hello") }).unwrap(); // { a: 1, b: "hello" }
+	 * ```
+	 *
+	 * @template T - An object of `Result` or `ResultAsync` values.
+	 *
+	 * @param results - The `Result` or `ResultAsync` values to combine.
+	 *
+	 * @returns A `ResultAsync` containing an object of all `Ok` values, or the first `Err` to
+	 * resolve.
+	 */
+	static allFromObject<T extends AnyResultRecord>(
+		results: T,
+	): ResultAsync<OkRecord<T>, ErrRecordUnion<T>> {
+		const keys = Object.keys(results);
+
+		return ResultAsync.all(Object.values(results)).map(
+			// Cast is safe: `values` holds one entry per key of `T`, in key order.
+			(values) => Object.fromEntries(keys.map((key, i) => [key, values[i]])) as OkRecord<T>,
+		) as ResultAsync<OkRecord<T>, ErrRecordUnion<T>>;
+	}
+
+	/**
+	 * Combines multiple `Result` or `ResultAsync` values into a single `ResultAsync` containing
+	 * a tuple of all `Ok` values, or an `Err` containing every error. Unlike
+	 * {@link ResultAsync.all}, this waits for every input to settle instead of stopping at the
+	 * first `Err`, which makes it suitable for validation.
+	 *
+	 * @example
+	 * ```ts
+	 * const combined = ResultAsync.allErrors([okAsync(1), ok("hello")]);
+	 * await combined.unwrap(); // [1, "hello"]
+	 *
+	 * const failed = ResultAsync.allErrors([okAsync(1), errAsync("bad"), err("worse")]);
+	 * await failed.unwrapErr(); // ["bad", "worse"]
+	 * ```
+	 *
+	 * @template T - A readonly tuple or array of `Result` or `ResultAsync` values.
+	 *
+	 * @param results - The `Result` or `ResultAsync` values to combine.
+	 *
+	 * @returns A `ResultAsync` containing a tuple of all `Ok` values, or an array of every `Err`
+	 * value in input order.
+	 */
+	static allErrors<const T extends readonly AnyResult[]>(
+		results: T,
+	): ResultAsync<OkTuple<T>, ErrUnion<T>[]>;
+	static allErrors<T, E>(results: readonly AnyResult<T, E>[]): ResultAsync<T[], E[]>;
+	static allErrors(results: readonly AnyResult[]): ResultAsync<unknown[], unknown[]> {
+		return ResultAsync.fromPromise(
+			Promise.all(results).then((settled) => Result.allErrors(settled)),
+		);
+	}
+
+	/**
+	 * Combines an object of `Result` or `ResultAsync` values into a single `ResultAsync`
+	 * containing an object of all `Ok` values, or an `Err` containing the error of every failed
+	 * field, keyed by field name. All fields are awaited concurrently.
+	 *
+	 * @example
+	 * ```ts
+	 * const form = ResultAsync.allErrorsFromObject({
+	 *   email: checkEmailAvailable(input.email),
+	 *   name: validateName(input.name),
+	 * });
+	 * // ResultAsync<{ email: string; name: string }, { email?: TakenError; name?: NameError }>
+	 * ```
+	 *
+	 * @template T - An object of `Result` or `ResultAsync` values.
+	 *
+	 * @param results - The `Result` or `ResultAsync` values to combine.
+	 *
+	 * @returns A `ResultAsync` containing an object of all `Ok` values, or an object of every
+	 * `Err` value keyed by field name.
+	 */
+	static allErrorsFromObject<T extends AnyResultRecord>(
+		results: T,
+	): ResultAsync<OkRecord<T>, ErrRecord<T>>;
+	static allErrorsFromObject(
+		results: AnyResultRecord,
+	): ResultAsync<Record<string, unknown>, Record<string, unknown>> {
+		const entries = Object.entries(results);
+
+		return ResultAsync.fromPromise(
+			Promise.all(entries.map(async ([key, result]) => [key, await result] as const)).then(
+				(settled) => Result.allErrorsFromObject(Object.fromEntries(settled)),
+			),
+		);
+	}
+
+	/**
+	 * Waits for multiple `Result` or `ResultAsync` values to settle and resolves to a tuple of
+	 * their `Result`s. Never short-circuits. Similar to `Promise.allSettled`.
+	 *
+	 * A rejected input is a defect, not an `Err`: the promise still waits for every other input,
+	 * then rejects with the first rejection reason in input order.
+	 *
+	 * @example
+	 * ```ts
+	 * const [user, prefs] = await ResultAsync.allSettled([fetchUser(id), fetchPrefs(id)]);
+	 * // [Result<User, UserError>, Result<Prefs, PrefsError>]
+	 * ```
+	 *
+	 * @template T - A readonly tuple or array of `Result` or `ResultAsync` values.
+	 *
+	 * @param results - The `Result` or `ResultAsync` values to settle.
+	 *
+	 * @returns A promise that resolves to a tuple of every `Result`, in input order.
+	 */
+	static allSettled<const T extends readonly AnyResult[]>(results: T): Promise<SettledTuple<T>>;
+	static allSettled<T, E>(results: readonly AnyResult<T, E>[]): Promise<Result<T, E>[]>;
+	static async allSettled(results: readonly AnyResult[]): Promise<Result<unknown, unknown>[]> {
+		const settled = await Promise.allSettled(results);
+		const rejected = settled.find((outcome) => outcome.status === "rejected");
+		if (rejected) {
+			throw rejected.reason;
+		}
+
+		return settled.map(
+			(outcome) => (outcome as PromiseFulfilledResult<Result<unknown, unknown>>).value,
+		);
+	}
+
+	/**
+	 * Waits for multiple `Result` or `ResultAsync` values to settle and splits them into their
+	 * `Ok` values and `Err` values, keeping the index of each entry in the original input.
+	 * Rejected inputs are handled like {@link ResultAsync.allSettled} handles them.
+	 *
+	 * @example
+	 * ```ts
+	 * const { oks, errs } = await ResultAsync.partition(jobs.map(runJob));
+	 * for (const { index, error } of errs) {
+	 *   console.error(`job ${index} failed`, error);
+	 * }
+	 * ```
+	 *
+	 * @template T - A readonly tuple or array of `Result` or `ResultAsync` values.
+	 *
+	 * @param results - The `Result` or `ResultAsync` values to partition.
+	 *
+	 * @returns A promise that resolves to every `Ok` value and every `Err` value with their
+	 * indices.
+	 */
+	static async partition<const T extends readonly AnyResult[]>(
+		results: T,
+	): Promise<Partitioned<OkUnion<T>, ErrUnion<T>>> {
+		return Result.partition(await ResultAsync.allSettled(results));
+	}
+
+	/**
+	 * Applies a `Result`-returning function to every item, running at most `concurrency`
+	 * operations at once, and combines the outcomes into a single `ResultAsync`. Values are
+	 * returned in input order, regardless of completion order.
+	 *
+	 * By default, no new work is scheduled after the first `Err`, and the combined result
+	 * resolves to that `Err`. Pass `mode: "collect"` to run every operation and resolve to
+	 * an `Err` containing every error in input order.
+	 *
+	 * If `fn` throws or returns a rejected promise, no new work is scheduled and the combined
+	 * result rejects with the same reason.
+	 *
+	 * @example
+	 * ```ts
+	 * const contents = ResultAsync.traverse(paths, (path) => readFile(path, "utf8"), {
+	 *   concurrency: 16,
+	 * });
+	 * // ResultAsync<string[], NodeFsError>
+	 *
+	 * const responses = ResultAsync.traverse(urls, (url) => fetch(url), {
+	 *   concurrency: 4,
+	 *   mode: "collect",
+	 * });
+	 * // ResultAsync<Response[], FetchError[]>
+	 * ```
+	 *
+	 * @template T - The type of the input items.
+	 * @template U - The success type of the function.
+	 * @template E - The error type of the function.
+	 *
+	 * @param items - The items to traverse.
+	 * @param fn - The function to apply to each item.
+	 * @param options - The concurrency limit and error handling mode.
+	 *
+	 * @returns A `ResultAsync` containing every value in input order, or the error(s).
+	 *
+	 * @throws {RangeError} If `concurrency` is not a positive integer or `Infinity`.
+	 */
+	static traverse<T, U, E>(
+		items: Iterable<T>,
+		fn: (item: T, index: number) => MaybePromise<Result<U, E>> | ResultAsync<U, E>,
+		options: TraverseOptions & { mode: "collect" },
+	): ResultAsync<U[], E[]>;
+	static traverse<T, U, E>(
+		items: Iterable<T>,
+		fn: (item: T, index: number) => MaybePromise<Result<U, E>> | ResultAsync<U, E>,
+		options?: TraverseOptions & { mode?: "fail-fast" },
+	): ResultAsync<U[], E>;
+	static traverse<T>(
+		items: Iterable<T>,
+		fn: (
+			item: T,
+			index: number,
+		) => MaybePromise<Result<unknown, unknown>> | ResultAsync<unknown, unknown>,
+		options: TraverseOptions = {},
+	): ResultAsync<unknown, unknown> {
+		const { concurrency = Number.POSITIVE_INFINITY, mode = "fail-fast" } = options;
+		const unlimited = concurrency === Number.POSITIVE_INFINITY;
+		if (!(unlimited || (Number.isInteger(concurrency) && concurrency >= 1))) {
+			throw new RangeError(
+				`Expected concurrency to be a positive integer or Infinity, got ${concurrency}`,
+			);
+		}
+
+		const inputs = Array.from(items);
+		if (inputs.length === 0) {
+			return okAsync([]);
+		}
+
+		return ResultAsync.fromPromise(
+			new Promise<Result<unknown, unknown>>((resolve, reject) => {
+				const outcomes: Result<unknown, unknown>[] = new Array(inputs.length);
+				let next = 0;
+				let active = 0;
+				let settled = false;
+
+				const finish = (result: Result<unknown, unknown>) => {
+					settled = true;
+					resolve(result);
+				};
+
+				const fail = (reason: unknown) => {
+					if (!settled) {
+						settled = true;
+						reject(reason);
+					}
+				};
+
+				const onSettled = (index: number, result: Result<unknown, unknown>) => {
+					active -= 1;
+					outcomes[index] = result;
+					if (settled) {
+						return;
+					}
+
+					if (result.isErr() && mode === "fail-fast") {
+						finish(result);
+					} else if (next === inputs.length && active === 0) {
+						finish(Result.allErrors(outcomes));
+					} else {
+						schedule();
+					}
+				};
+
+				const schedule = () => {
+					while (!settled && active < concurrency && next < inputs.length) {
+						const index = next;
+						next += 1;
+						active += 1;
+						// The executor also turns a synchronous throw from `fn` into a rejection.
+						new Promise<Result<unknown, unknown>>((run) => run(fn(inputs[index] as T, index))).then(
+							(result) => onSettled(index, result),
+							fail,
+						);
+					}
+				};
+
+				schedule();
+			}),
+		);
+	}
+
+	/**
+	 * Runs an operation, retrying it while it fails, up to `attempts` times in total.
+	 *
+	 * The operation is a function so that every attempt starts fresh work. Between attempts,
+	 * waits for the delay returned by `backoff`. Stops early when `shouldRetry` returns `false`.
+	 * If every attempt fails, resolves to a {@link RetryError} holding the last error and the
+	 * history of every attempt.
+	 *
+	 * @example
+	 * ```ts
+	 * const response = ResultAsync.retry(() => fetch(url), {
+	 *   attempts: 5,
+	 *   backoff: Backoff.exponential({ initial: 200, jitter: true }),
+	 *   shouldRetry: (error) => error instanceof TypeError,
+	 * });
+	 * // ResultAsync<Response, RetryError<DOMException | TypeError>>
+	 * ```
+	 *
+	 * @template T - The success type of the operation.
+	 * @template E - The error type of the operation.
+	 *
+	 * @param fn - The operation to run, called with the 1-based attempt number.
+	 * @param options - The attempt limit, backoff policy, retry predicate and sleep function.
+	 *
+	 * @returns A `ResultAsync` containing the first success, or a `RetryError`.
+	 *
+	 * @throws {RangeError} If `attempts` is not a positive integer.
+	 */
+	static retry<T, E>(
+		fn: (attempt: number) => MaybePromise<Result<T, E>> | ResultAsync<T, E>,
+		options: RetryOptions<E>,
+	): ResultAsync<T, RetryError<E>> {
+		const { attempts, backoff = () => 0, shouldRetry = () => true, sleep = sleepFor } = options;
+		if (!(Number.isInteger(attempts) && attempts >= 1)) {
+			throw new RangeError(`Expected attempts to be a positive integer, got ${attempts}`);
+		}
+
+		const history: RetryAttempt<E>[] = [];
+
+		const run = async (attempt: number): Promise<Result<T, RetryError<E>>> => {
+			const result = await fn(attempt);
+			if (result.isOk()) {
+				// Cast avoids allocating a new Ok; the error type is phantom here.
+				return result as unknown as Ok<T, RetryError<E>>;
+			}
+
+			const retrying = attempt < attempts && shouldRetry(result.error, attempt);
+			const delay = retrying ? backoff(attempt) : 0;
+			history.push({ attempt, error: result.error, delay });
+			if (!retrying) {
+				return err(new RetryError(history));
+			}
+
+			await sleep(delay);
+			return run(attempt + 1);
+		};
+
+		return ResultAsync.fromPromise(run(1));
+	}
+
+	/**
+	 * Acquires a resource, uses it, and releases it again, whatever the outcome of the body.
+	 *
+	 * `release` runs exactly once if `acquire` succeeds: after the body resolves to an `Ok` or
+	 * an `Err`, and also when it throws, in which case the error is rethrown once the resource
+	 * is released. If `acquire` fails, its error is returned and nothing is released.
+	 *
+	 * A release failure is not swallowed. After a successful body it becomes the result's error;
+	 * after a failed body, both errors are combined into a {@link ReleaseError}, whether `release`
+	 * returns an `Err` or throws. When the body throws and the release fails too, the rethrown
+	 * exception is a `ReleaseError` holding both. When `release` throws after a successful body,
+	 * the result rejects with its exception.
+	 *
+	 * @example
+	 * ```ts
+	 * const contents = ResultAsync.bracket(
+	 *   () => open(path, "r"),
+	 *   (handle) => ResultAsync.try(() => handle.readFile("utf8")),
+	 *   (handle) => ResultAsync.try(() => handle.close()),
+	 * );
+	 * // The handle is closed whether or not the read succeeds.
+	 * ```
+	 *
+	 * @template R - The type of the resource.
+	 * @template E - The error type of acquiring the resource.
+	 * @template T - The success type of the body.
+	 * @template F - The error type of the body.
+	 * @template G - The error type of releasing the resource.
+	 *
+	 * @param acquire - Acquires the resource.
+	 * @param use - The body, called with the resource.
+	 * @param release - Releases the resource.
+	 *
+	 * @returns A `ResultAsync` containing the body's result, settled after the resource is released.
+	 */
+	static bracket<R, E, T, F, G>(
+		acquire: () => MaybePromise<Result<R, E>> | ResultAsync<R, E>,
+		use: (resource: R) => MaybePromise<Result<T, F>> | ResultAsync<T, F>,
+		release: (resource: R) => MaybePromise<Result<unknown, G>> | ResultAsync<unknown, G>,
+	): ResultAsync<T, E | F | G | ReleaseError<F, G>> {
+		const run = async (): Promise<Result<T, E | F | G | ReleaseError<F, G>>> => {
+			const acquired = await acquire();
+			if (acquired.isErr()) {
+				// Cast avoids allocating a new Err; the value type T is phantom here.
+				return acquired as unknown as Err<T, E>;
+			}
+
+			const resource = acquired.value;
+			let result: Result<T, F>;
+			try {
+				result = await use(resource);
+			} catch (error) {
+				return rethrowAfterRelease(error, () => release(resource));
+			}
+
+			let released: Result<unknown, G>;
+			try {
+				released = await release(resource);
+			} catch (releaseError) {
+				if (result.isOk()) {
+					throw releaseError;
+				}
+
+				// Keeps the body's error. The type can't describe the exception `release` threw.
+				return err(new ReleaseError(result.error, releaseError as G));
+			}
+
+			if (released.isOk()) {
+				return result;
+			}
+
+			return err(result.isOk() ? released.error : new ReleaseError(result.error, released.error));
+		};
+
+		return ResultAsync.fromPromise(run());
+	}
+
+	/**
+	 * Runs a group of child operations that succeed or fail together.
+	 *
+	 * Children are started with `scope.run` and share `scope.signal`. The first child to resolve
+	 * to an `Err` (or throw) aborts the signal, so its siblings can stop their work instead of
+	 * running on in the background. The body returning an `Err` or throwing aborts the signal
+	 * too. Either way, the scope only settles once every child has settled, so no work started
+	 * inside it outlives it.
+	 *
+	 * The scope resolves to the body's result. Propagate child errors from the body as usual,
+	 * for example with {@link ResultAsync.all} or {@link chain}.
+	 *
+	 * @example
+	 * ```ts
+	 * const page = ResultAsync.scope((scope) =>
+	 *   ResultAsync.all([
+	 *     scope.run((signal) => fetchUser(id, { signal })),
+	 *     scope.run((signal) => fetchPosts(id, { signal })),
+	 *   ]),
+	 * );
+	 * // If fetchUser fails, fetchPosts is aborted, and page settles once it has stopped.
+	 * ```
+	 *
+	 * @template T - The success type of the body.
+	 * @template E - The error type of the body.
+	 *
+	 * @param body - Starts the children and combines their results.
+	 *
+	 * @returns A `ResultAsync` containing the body's result, settled after every child.
+	 */
+	static scope<T, E>(
+		body: (scope: Scope) => MaybePromise<Result<T, E>> | ResultAsync<T, E>,
+	): ResultAsync<T, E> {
+		const controller = new AbortController();
+		const children: Promise<void>[] = [];
+
+		const fail = (reason: unknown) => {
+			if (!controller.signal.aborted) {
+				controller.abort(reason);
+			}
+		};
+
+		// Children may start more children, so keep waiting until no new ones appear.
+		const settled = (): Promise<void> => {
+			const count = children.length;
+			return Promise.all(children).then(() => (children.length === count ? undefined : settled()));
+		};
+
+		const scope: Scope = {
+			signal: controller.signal,
+			run<U, F>(
+				fn: (signal: AbortSignal) => MaybePromise<Result<U, F>> | ResultAsync<U, F>,
+			): ResultAsync<U, F> {
+				const child = Promise.resolve().then(async () => {
+					const result = await fn(controller.signal);
+					if (result.isErr()) {
+						fail(result.error);
+					}
+
+					return result;
+				});
+				children.push(child.then(() => undefined, fail));
+
+				return ResultAsync.fromPromise(child);
+			},
+		};
+
+		return ResultAsync.fromPromise(
+			Promise.resolve()
+				.then((): MaybePromise<Result<T, E>> => body(scope))
+				.then(
+					async (result) => {
+						if (result.isErr()) {
+							fail(result.error);
+						}
+						await settled();
+
+						return result;
+					},
+					async (error: unknown) => {
+						fail(error);
+						await settled();
+
+						throw error;
+					},
+				),
+		);
+	}
+
+	/**
+	 * Executes a function and wraps the result in a `ResultAsync`. If the function throws or
+	 * the promise rejects, `mapError` converts the caught value into the error, so `E` is
+	 * checked at runtime instead of being assumed. An abort reason is mapped the same way.
+	 *
+	 * @example
+	 * ```ts
+	 * const user = ResultAsync.try(
+	 *   () => db.users.find(id),
+	 *   (caught) => new DatabaseError("Lookup failed", { cause: caught }),
+	 * );
+	 * // ResultAsync<User, DatabaseError>
+	 * ```
+	 *
+	 * @template T - The resolved type of the promise or return value.
+	 * @template E - The type of the error value.
+	 *
+	 * @param fn - The function to execute. Receives the `signal` from `options`, if any.
+	 * @param mapError - Converts the caught value into the error value.
+	 * @param options - An optional `AbortSignal` to cancel the operation.
+	 *
+	 * @returns A `ResultAsync` containing either the resolved value or the mapped error.
+	 */
+	static try<T, E>(
+		fn: (signal?: AbortSignal) => T | Promise<T>,
+		mapError: (caught: unknown) => E,
+		options?: TryOptions,
+	): ResultAsync<T, E>;
+	/**
+	 * Executes a function and wraps the result in a `ResultAsync`, catching only the values
+	 * accepted by the `catchIf` type guard. Anything else rejects the `ResultAsync` as a defect.
+	 *
+	 * @example
+	 * ```ts
+	 * const response = ResultAsync.try(() => globalThis.fetch(url), {
+	 *   catchIf: (caught) => caught instanceof TypeError,
+	 * });
+	 * // ResultAsync<Response, TypeError>
+	 * ```
+	 *
+	 * @template T - The resolved type of the promise or return value.
+	 * @template C - The type of the caught values.
+	 * @template E - The type of the error value (defaults to `C`).
+	 *
+	 * @param fn - The function to execute. Receives the `signal` from `options`, if any.
+	 * @param options - The guard for expected errors, an optional mapper and an optional signal.
+	 *
+	 * @returns A `ResultAsync` containing either the resolved value or the caught error.
+	 */
+	static try<T, C, E = C>(
+		fn: (signal?: AbortSignal) => T | Promise<T>,
+		options: TryOptions & CatchGuard<C, E>,
+	): ResultAsync<T, E>;
+	/**
+	 * Executes a function and wraps the result in a `ResultAsync`, catching only the values
+	 * accepted by the `catchIf` predicate. Anything else rejects the `ResultAsync` as a defect.
+	 *
+	 * @example
+	 * ```ts
+	 * const response = ResultAsync.try((signal) => globalThis.fetch(url, { signal }), {
+	 *   signal,
+	 *   catchIf: (caught) => caught instanceof DOMException && caught.name === "AbortError",
+	 *   mapError: () => "cancelled" as const,
+	 * });
+	 * // ResultAsync<Response, "cancelled">
+	 * ```
+	 *
+	 * @template T - The resolved type of the promise or return value.
+	 * @template E - The type of the error value.
+	 *
+	 * @param fn - The function to execute. Receives the `signal` from `options`, if any.
+	 * @param options - The predicate for expected errors, the mapper and an optional signal.
+	 *
+	 * @returns A `ResultAsync` containing either the resolved value or the mapped error.
+	 */
+	static try<T, E>(
+		fn: (signal?: AbortSignal) => T | Promise<T>,
+		options: TryOptions & CatchFilter<E>,
+	): ResultAsync<T, E>;
 	/**
 	 * Executes a function and wraps the result in a `ResultAsync`. If the function
 	 * throws or the promise rejects, the error is caught and wrapped in an `Err`.
 	 * Use this to wrap throwable operations before passing them into `ResultAsync`
 	 * pipelines (`map`, `andThen`, `orElse`, `inspect`, etc.).
 	 *
+	 * The caught value is not checked against `E`. Pass a `mapError` function or `catchIf`
+	 * options (see the other overloads) to enforce the error type at runtime.
+	 *
+	 * Pass a `signal` to make the operation cancellable: aborting resolves the result to an
+	 * `Err` containing `signal.reason` instead of leaving it pending.
+	 *
 	 * @example
 	 * ```ts
 	 * const result = ResultAsync.try(async () => await fetch('/api').then(r => r.json()));
 	 * const failed = ResultAsync.try(async () => { throw new Error('oops'); });
+	 *
+	 * const controller = new AbortController();
+	 * const cancellable = ResultAsync.try((signal) => fetch('/api', { signal }), {
+	 *   signal: controller.signal,
+	 * });
+	 * controller.abort(); // cancellable resolves to err(AbortError)
 	 * ```
 	 *
 	 * @template T - The resolved type of the promise or return value.
 	 * @template E - The error type (defaults to `unknown`).
 	 *
-	 * @param fn - The function to execute.
+	 * @param fn - The function to execute. Receives the `signal` from `options`, if any.
+	 * @param options - An optional `AbortSignal` to cancel the operation.
 	 *
 	 * @returns A `ResultAsync` containing either the resolved value or the caught error.
 	 */
-	static try<T, E = unknown>(fn: () => T | Promise<T>): ResultAsync<T, E> {
-		return ResultAsync.fromPromise(
-			Promise.resolve()
-				.then(fn)
-				.then((value) => ok(value))
-				.catch((error) => err(error)),
-		);
+	static try<T, E = unknown>(
+		fn: (signal?: AbortSignal) => T | Promise<T>,
+		options?: TryOptions,
+	): ResultAsync<T, E>;
+	static try<T, E>(
+		fn: (signal?: AbortSignal) => T | Promise<T>,
+		handlerOrOptions?: ((caught: unknown) => E) | (TryOptions & Partial<CatchFilter<E>>),
+		maybeOptions: TryOptions = {},
+	): ResultAsync<T, E> {
+		let handler: CatchHandler<E> | undefined;
+		let options: TryOptions;
+		if (typeof handlerOrOptions === "function") {
+			handler = handlerOrOptions;
+			options = maybeOptions;
+		} else {
+			options = handlerOrOptions ?? {};
+			if (handlerOrOptions?.catchIf) {
+				// `catchIf` is present, so `mapError` is either set or `catchIf` is a type guard.
+				handler = handlerOrOptions as CatchGuard<unknown, E>;
+			}
+		}
+
+		const { signal } = options;
+		const caught = (error: unknown) => err<T, E>(toError(error, handler));
+		if (signal?.aborted) {
+			return ResultAsync.fromPromise(Promise.resolve().then(() => caught(signal.reason)));
+		}
+
+		const promise = Promise.resolve()
+			.then(() => fn(signal))
+			.then((value) => ok<T, E>(value), caught);
+
+		return ResultAsync.fromPromise(signal ? raceAbort(promise, signal, caught) : promise);
+	}
+
+	/**
+	 * Wraps a throwing or rejecting function into one that returns a `ResultAsync`. The wrapper
+	 * takes the same parameters (keeping up to four overloads) and calls `fn` with them,
+	 * catching anything it throws or rejects with like {@link ResultAsync.try}.
+	 *
+	 * @example
+	 * ```ts
+	 * const getUser = ResultAsync.fromThrowable(
+	 *   (id: string) => sdk.users.get(id),
+	 *   (caught) => new SdkError({ cause: caught }),
+	 * );
+	 * const user = getUser("42"); // ResultAsync<User, SdkError>
+	 * ```
+	 *
+	 * @template F - The type of the function to wrap.
+	 * @template E - The error type (defaults to `unknown`).
+	 *
+	 * @param fn - The function to wrap.
+	 * @param mapError - Converts a caught value into the error value. Without it, the caught
+	 * value is used as is.
+	 *
+	 * @returns A function with the same parameters as `fn` that returns a `ResultAsync`.
+	 */
+	static fromThrowable<F extends Throwable, E = unknown>(
+		fn: F,
+		mapError?: (caught: unknown) => E,
+	): ResultAsyncFunction<F, E> {
+		return function (this: unknown, ...args: Parameters<F>): ResultAsync<unknown, E> {
+			const call = () => fn.apply(this, args);
+			return mapError ? ResultAsync.try(call, mapError) : ResultAsync.try<unknown, E>(call);
+		} as ResultAsyncFunction<F, E>;
 	}
 
 	/**
@@ -450,6 +1508,24 @@ export class ResultAsync<T, E> implements PromiseLike<Result<T, E>>, ResultAsync
 		return new ResultAsync(promise);
 	}
 
+	/**
+	 * Checks whether a value is a `ResultAsync`. Unlike `instanceof`, this recognizes instances
+	 * created by another copy of antithrow, such as a duplicated install or a worker bundle.
+	 *
+	 * @example
+	 * ```ts
+	 * ResultAsync.isResultAsync(okAsync(1)); // true
+	 * ResultAsync.isResultAsync(ok(1)); // false
+	 * ```
+	 *
+	 * @param value - The value to check.
+	 *
+	 * @returns `true` if the value is a `ResultAsync`.
+	 */
+	static isResultAsync(value: unknown): value is ResultAsync<unknown, unknown> {
+		return brandOf(value, resultAsyncBrand) === true;
+	}
+
 	// biome-ignore lint/suspicious/noThenProperty: We are implementing `PromiseLike`.
 	then<TResult1 = Result<T, E>, TResult2 = never>(
 		onfulfilled?: ((value: Result<T, E>) => TResult1 | PromiseLike<TResult1>) | null,
@@ -528,6 +1604,14 @@ export class ResultAsync<T, E> implements PromiseLike<Result<T, E>>, ResultAsync
 		});
 	}
 
+	context(context: string): ResultAsync<T, ContextError<E>> {
+		return this.mapErr((error) => new ContextError(context, error));
+	}
+
+	withContext(fn: (error: E) => string): ResultAsync<T, ContextError<E>> {
+		return this.mapErr((error) => new ContextError(fn(error), error));
+	}
+
 	async mapOr<U>(defaultValue: U, fn: (value: T) => MaybePromise<U>): Promise<U> {
 		const result = await this.promise;
 		if (result.isErr()) {
@@ -594,6 +1678,32 @@ export class ResultAsync<T, E> implements PromiseLike<Result<T, E>>, ResultAsync
 		});
 	}
 
+	catchTag<K extends Tag<E>, F>(
+		tag: K,
+		fn: (error: Extract<E, WithTag<K>>) => MaybePromise<Result<T, F>> | ResultAsync<T, F>,
+	): ResultAsync<T, Exclude<E, WithTag<K>> | F> {
+		return this.orElse<Exclude<E, WithTag<K>> | F>((error) => {
+			if ((error as Partial<WithTag<string>>)._tag === tag) {
+				return fn(error as Extract<E, WithTag<K>>);
+			}
+
+			return err(error as Exclude<E, WithTag<K>>);
+		});
+	}
+
+	catchIf<C, F>(
+		ctor: abstract new (...args: never[]) => C,
+		fn: (error: C) => MaybePromise<Result<T, F>> | ResultAsync<T, F>,
+	): ResultAsync<T, Exclude<E, C> | F> {
+		return this.orElse<Exclude<E, C> | F>((error) => {
+			if (error instanceof ctor) {
+				return fn(error);
+			}
+
+			return err(error as Exclude<E, C>);
+		});
+	}
+
 	async match<U>(handlers: {
 		ok: (value: T) => MaybePromise<U>;
 		err: (error: E) => MaybePromise<U>;
@@ -605,6 +1715,12 @@ export class ResultAsync<T, E> implements PromiseLike<Result<T, E>>, ResultAsync
 		return handlers.err(result.error);
 	}
 
+	async matchTag<U>(
+		handlers: { ok: (value: T) => MaybePromise<U> } & TagHandlers<E, MaybePromise<U>>,
+	): Promise<U> {
+		return (await this.promise).matchTag(handlers);
+	}
+
 	inspect(fn: (value: T) => MaybePromise<unknown>): ResultAsync<T, E> {
 		return this.wrap(async (result) => {
 			if (result.isOk()) {
@@ -623,10 +1739,77 @@ export class ResultAsync<T, E> implements PromiseLike<Result<T, E>>, ResultAsync
 		});
 	}
 
+	andThrough<F>(
+		fn: (value: T) => MaybePromise<Result<unknown, F>> | ResultAsync<unknown, F>,
+	): ResultAsync<T, E | F> {
+		return this.wrap(async (result): Promise<Result<T, E | F>> => {
+			if (result.isErr()) {
+				return result;
+			}
+
+			const through = await fn(result.value);
+			// Cast avoids allocating a new Err; the value type is phantom here.
+			return through.isErr() ? (through as Err<T, F>) : result;
+		});
+	}
+
+	orThrough<F>(
+		fn: (error: E) => MaybePromise<Result<unknown, F>> | ResultAsync<unknown, F>,
+	): ResultAsync<T, E | F> {
+		return this.wrap(async (result): Promise<Result<T, E | F>> => {
+			if (result.isOk()) {
+				return result;
+			}
+
+			const through = await fn(result.error);
+			// Cast avoids allocating a new Err; the value type is phantom here.
+			return through.isErr() ? (through as Err<T, F>) : result;
+		});
+	}
+
 	flatten<U, F>(this: ResultAsync<Result<U, F>, E>): ResultAsync<U, E | F> {
 		return this.andThen((result) => result);
 	}
 
+	timeout<F>(ms: number, onTimeout: () => F): ResultAsync<T, E | F> {
+		if (ms === Number.POSITIVE_INFINITY) {
+			return this;
+		}
+		if (!(ms >= 0 && ms <= MAX_TIMEOUT)) {
+			throw new RangeError(`Expected ms to be between 0 and ${MAX_TIMEOUT} or Infinity, got ${ms}`);
+		}
+
+		return ResultAsync.fromPromise(
+			new Promise<Result<T, E | F>>((resolve, reject) => {
+				const timer = setTimeout(() => {
+					try {
+						resolve(err(onTimeout()));
+					} catch (error) {
+						reject(error);
+					}
+				}, ms);
+				this.promise.then(
+					(result) => {
+						clearTimeout(timer);
+						resolve(result);
+					},
+					(reason: unknown) => {
+						clearTimeout(timer);
+						reject(reason);
+					},
+				);
+			}),
+		);
+	}
+
+	async ok(): Promise<Option<T>> {
+		return (await this.promise).ok();
+	}
+
+	async err(): Promise<Option<E>> {
+		return (await this.promise).err();
+	}
+
 	async *[Symbol.asyncIterator](): AsyncChainGenerator<T, E> {
 		const result = await this.promise;
 		if (result.isOk()) {
@@ -0,0 +1,337 @@
+import { describe, expect, expectTypeOf, test } from "bun:test";
+import { chain } from "./chain.js";
+import type { Result } from "./result.js";
+import { err, ok } from "./result.js";
+import type { ResultAsync } from "./result-async.js";
+import { errAsync, okAsync } from "./result-async.js";
+import { ResultStream } from "./result-stream.js";
+
+async function* generate<T>(values: T[], error?: unknown): AsyncGenerator<T> {
+	yield* values;
+	if (error !== undefined) {
+		throw error;
+	}
+}
+
+/** Streams `results`, recording how many were pulled and whether the source was closed. */
+function tracked<T, E>(results: Result<T, E>[]) {
+	const state = { pulled: 0, closed: false };
+	const source = (async function* () {
+		try {
+			for (const result of results) {
+				state.pulled++;
+				yield result;
+			}
+		} finally {
+			state.closed = true;
+		}
+	})();
+	return { stream: ResultStream.from(source), state };
+}
+
+async function toArray<T, E>(stream: ResultStream<T, E>): Promise<Result<T, E>[]> {
+	const results: Result<T, E>[] = [];
+	for await (const result of stream) {
+		results.push(result);
+	}
+	return results;
+}
+
+describe("ResultStream", () => {
+	describe("from", () => {
+		test("streams the results of an async iterable", async () => {
+			const stream = ResultStream.from(generate<Result<number, string>>([ok(1), err("bad")]));
+			expect(await toArray(stream)).toEqual([ok(1), err("bad")]);
+		});
+
+		test("awaits the ResultAsyncs of a sync iterable in order", async () => {
+			const stream = ResultStream.from([okAsync(1), ok(2), errAsync("bad")]);
+			expect(await toArray(stream)).toEqual([ok(1), ok(2), err("bad")]);
+		});
+
+		test("does not iterate the source until iterated", () => {
+			const { stream, state } = tracked([ok(1)]);
+			stream.map((value) => value + 1);
+			expect(state.pulled).toBe(0);
+		});
+
+		test("starts over on every iteration", async () => {
+			const stream = ResultStream.from([ok(1), ok(2)]);
+			expect(await toArray(stream)).toEqual([ok(1), ok(2)]);
+			expect(await toArray(stream)).toEqual([ok(1), ok(2)]);
+		});
+	});
+
+	describe("fromAsyncIterable", () => {
+		test("wraps every value in an Ok", async () => {
+			const stream = ResultStream.fromAsyncIterable(generate([1, 2]));
+			expect(await toArray(stream)).toEqual([ok(1), ok(2)]);
+		});
+
+		test("ends with an Err if the iterator throws", async () => {
+			const error = new Error("disconnected");
+			const stream = ResultStream.fromAsyncIterable(generate([1], error));
+			expect(await toArray(stream)).toEqual([ok(1), err(error)]);
+		});
+
+		test("converts the caught value with mapError", async () => {
+			const stream = ResultStream.fromAsyncIterable(
+				generate([1], new Error("disconnected")),
+				(caught) => (caught as Error).message,
+			);
+			expect(await toArray(stream)).toEqual([ok(1), err("disconnected")]);
+		});
+
+		test("catches rejected values of a sync iterable", async () => {
+			const error = new Error("boom");
+			const stream = ResultStream.fromAsyncIterable([Promise.resolve(1), Promise.reject(error)]);
+			expect(await toArray(stream)).toEqual([ok(1), err(error)]);
+		});
+	});
+
+	describe("fromStream", () => {
+		function readable<T>(values: T[], error?: unknown): ReadableStream<T> {
+			let index = 0;
+			return new ReadableStream<T>({
+				pull(controller) {
+					if (index < values.length) {
+						controller.enqueue(values[index++] as T);
+					} else if (error !== undefined) {
+						controller.error(error);
+					} else {
+						controller.close();
+					}
+				},
+			});
+		}
+
+		test("wraps every chunk of a ReadableStream in an Ok", async () => {
+			const stream = readable(["a", "b"]);
+			expect(await toArray(ResultStream.fromStream(stream))).toEqual([ok("a"), ok("b")]);
+			expect(stream.locked).toBe(false);
+		});
+
+		test("ends with an Err if the ReadableStream errors", async () => {
+			const error = new Error("reset");
+			const stream = readable(["a"], error);
+			const results = ResultStream.fromStream(stream, (caught) => (caught as Error).message);
+			expect(await toArray(results)).toEqual([ok("a"), err("reset")]);
+			expect(stream.locked).toBe(false);
+		});
+
+		test("yields an Err if the ReadableStream is already locked", async () => {
+			const stream = readable(["a"]);
+			const reader = stream.getReader();
+			const results = await toArray(ResultStream.fromStream(stream));
+			expect(results).toHaveLength(1);
+			expect(results[0]?.unwrapErr()).toBeInstanceOf(TypeError);
+			reader.releaseLock();
+		});
+
+		test("releases the lock without cancelling on early exit", async () => {
+			const stream = readable(["a", "b", "c"]);
+			for await (const result of ResultStream.fromStream(stream)) {
+				expect(result).toEqual(ok("a"));
+				break;
+			}
+			expect(stream.locked).toBe(false);
+
+			const rest = await ResultStream.fromStream(stream).collect();
+			expect(rest).toEqual(ok(["b", "c"]));
+		});
+
+		test("releases the lock when collect stops at an Err", async () => {
+			const stream = readable(["a"], new Error("reset"));
+			const results = ResultStream.fromStream(stream).map((chunk) => chunk.toUpperCase());
+			expect(await results.collect()).toEqual(err(new Error("reset")));
+			expect(stream.locked).toBe(false);
+		});
+
+		test("reads an AsyncIterable and calls return on early exit", async () => {
+			let closed = false;
+			const source = (async function* () {
+				try {
+					yield* ["a", "b"];
+				} finally {
+					closed = true;
+				}
+			})();
+			for await (const result of ResultStream.fromStream(source)) {
+				expect(result).toEqual(ok("a"));
+				expect(closed).toBe(false);
+				break;
+			}
+			expect(closed).toBe(true);
+		});
+
+		test("ends with an Err if the AsyncIterable throws", async () => {
+			const error = new Error("disconnected");
+			const stream = ResultStream.fromStream(generate([1], error));
+			expect(await toArray(stream)).toEqual([ok(1), err(error)]);
+		});
+	});
+
+	describe("map", () => {
+		test("maps Ok values and passes errors through", async () => {
+			const stream = ResultStream.from([ok(1), err("bad"), ok(3)]).map(async (value) => value * 2);
+			expect(await toArray(stream)).toEqual([ok(2), err("bad"), ok(6)]);
+		});
+	});
+
+	describe("mapErr", () => {
+		test("maps Err values and passes successes through", async () => {
+			const stream = ResultStream.from([ok(1), err("bad")]).mapErr((error) => error.toUpperCase());
+			expect(await toArray(stream)).toEqual([ok(1), err("BAD")]);
+		});
+	});
+
+	describe("andThen", () => {
+		test("replaces Ok values with the results of fn", async () => {
+			const stream = ResultStream.from([ok(1), ok(-1), err("bad")]).andThen((value) =>
+				value > 0 ? okAsync(value * 10) : err("negative"),
+			);
+			expect(await toArray(stream)).toEqual([ok(10), err("negative"), err("bad")]);
+		});
+
+		test("does not call fn for errors", async () => {
+			let calls = 0;
+			const stream = ResultStream.from([err("bad")]).andThen(() => ok(calls++));
+			await toArray(stream);
+			expect(calls).toBe(0);
+		});
+	});
+
+	describe("filterOk", () => {
+		test("drops every Err", async () => {
+			const stream = ResultStream.from([ok(1), err("bad"), ok(3)]).filterOk();
+			expect(await toArray(stream)).toEqual([ok(1), ok(3)]);
+		});
+	});
+
+	describe("takeWhileOk", () => {
+		test("ends after the first Err", async () => {
+			const { stream, state } = tracked([ok(1), err("bad"), ok(3), err("worse")]);
+			expect(await toArray(stream.takeWhileOk())).toEqual([ok(1), err("bad")]);
+			expect(state.pulled).toBe(2);
+			expect(state.closed).toBe(true);
+		});
+
+		test("yields everything when there are no errors", async () => {
+			const stream = ResultStream.from([ok(1), ok(2)]).takeWhileOk();
+			expect(await toArray(stream)).toEqual([ok(1), ok(2)]);
+		});
+	});
+
+	describe("collect", () => {
+		test("collects every Ok value", async () => {
+			expect(await ResultStream.from([ok(1), okAsync(2)]).collect()).toEqual(ok([1, 2]));
+		});
+
+		test("stops at the first Err and closes the source", async () => {
+			const { stream, state } = tracked([ok(1), err("bad"), err("worse")]);
+			expect(await stream.collect()).toEqual(err("bad"));
+			expect(state.pulled).toBe(2);
+			expect(state.closed).toBe(true);
+		});
+
+		test("returns an empty array for an empty stream", async () => {
+			expect(await ResultStream.from([]).collect()).toEqual(ok([]));
+		});
+	});
+
+	describe("collectAll", () => {
+		test("collects every Ok value", async () => {
+			expect(await ResultStream.from([ok(1), ok(2)]).collectAll()).toEqual(ok([1, 2]));
+		});
+
+		test("collects every error", async () => {
+			const { stream, state } = tracked([ok(1), err("bad"), ok(3), err("worse")]);
+			expect(await stream.collectAll()).toEqual(err(["bad", "worse"]));
+			expect(state.pulled).toBe(4);
+		});
+	});
+
+	describe("chain", () => {
+		test("unwraps each result with yield*", async () => {
+			const stream = ResultStream.from([ok(1), ok(2), ok(3)]);
+			const result = chain(async function* () {
+				let total = 0;
+				for await (const item of stream) {
+					total += yield* item;
+				}
+				return total;
+			});
+			expect(await result).toEqual(ok(6));
+		});
+
+		test("short-circuits on the first Err and closes the source", async () => {
+			const { stream, state } = tracked([ok(1), err("bad"), ok(3)]);
+			const result = chain(async function* () {
+				let total = 0;
+				for await (const item of stream) {
+					total += yield* item;
+				}
+				return total;
+			});
+			expect(await result).toEqual(err("bad"));
+			expect(state.pulled).toBe(2);
+			expect(state.closed).toBe(true);
+		});
+
+		test("yields collected results", async () => {
+			const result = chain(async function* () {
+				const values = yield* ResultStream.from([ok(1), ok(2)]).collect();
+				return values.length;
+			});
+			expect(await result).toEqual(ok(2));
+		});
+	});
+
+	describe("types", () => {
+		test("from infers the result types", () => {
+			const stream = ResultStream.from([ok<number, string>(1), errAsync<number, string>("bad")]);
+			expectTypeOf(stream).toEqualTypeOf<ResultStream<number, string>>();
+		});
+
+		test("fromAsyncIterable defaults the error to unknown", () => {
+			expectTypeOf(ResultStream.fromAsyncIterable(generate([1]))).toEqualTypeOf<
+				ResultStream<number, unknown>
+			>();
+			expectTypeOf(
+				ResultStream.fromAsyncIterable([Promise.resolve(1)], () => "failed" as const),
+			).toEqualTypeOf<ResultStream<number, "failed">>();
+		});
+
+		test("fromStream infers the chunk type", () => {
+			expectTypeOf(ResultStream.fromStream(new ReadableStream<Uint8Array>())).toEqualTypeOf<
+				ResultStream<Uint8Array, unknown>
+			>();
+			expectTypeOf(ResultStream.fromStream(generate(["a"]), () => "failed" as const)).toEqualTypeOf<
+				ResultStream<string, "failed">
+			>();
+		});
+
+		test("andThen unions the error types", () => {
+			const stream = ResultStream.from([ok<number, "a">(1)]);
+			const next = stream.andThen(() => errAsync<string, "b">("b"));
+			expectTypeOf(next).toEqualTypeOf<ResultStream<string, "a" | "b">>();
+		});
+
+		test("filterOk removes the error type", () => {
+			const stream = ResultStream.from([ok<number, string>(1)]);
+			expectTypeOf(stream.filterOk()).toEqualTypeOf<ResultStream<number, never>>();
+		});
+
+		test("collect and collectAll return ResultAsyncs", () => {
+			const stream = ResultStream.from([ok<number, string>(1)]);
+			expectTypeOf(stream.collect()).toEqualTypeOf<ResultAsync<number[], string>>();
+			expectTypeOf(stream.collectAll()).toEqualTypeOf<ResultAsync<number[], string[]>>();
+		});
+
+		test("is an async iterable of results", () => {
+			expectTypeOf(ResultStream.from([ok<number, string>(1)])).toMatchTypeOf<
+				AsyncIterable<Result<number, string>>
+			>();
+		});
+	});
+});
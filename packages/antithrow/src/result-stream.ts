@@ -0,0 +1,366 @@
+import { toError } from "./catch.js";
+import type { Err } from "./result.js";
+import { err, ok, Result } from "./result.js";
+import { ResultAsync } from "./result-async.js";
+
+/**
+ * A type that can be either a value or a promise-like containing that value.
+ */
+type MaybePromise<T> = T | PromiseLike<T>;
+
+/**
+ * A lazy stream of results, such as the pages of a paginated API or the entries of a directory
+ * walk, with combinators that work on its `Ok` values and pass its errors through.
+ *
+ * A `ResultStream` is an `AsyncIterable<Result<T, E>>`, so it can be consumed with `for await`,
+ * including inside an async `chain`, where `yield*` unwraps each result. Nothing runs until the
+ * stream is iterated, and every iteration starts over from its source.
+ *
+ * @example
+ * ```ts
+ * const users = ResultStream.from(fetchPages("/users"))
+ *   .map((page) => page.items)
+ *   .collect(); // ResultAsync<User[][], FetchError>
+ *
+ * const total = chain(async function* () {
+ *   let count = 0;
+ *   for await (const result of stream) {
+ *     count += (yield* result).length;
+ *   }
+ *   return count;
+ * });
+ * ```
+ *
+ * @template T - The type of the success values.
+ * @template E - The type of the error values.
+ */
+export class ResultStream<T, E> implements AsyncIterable<Result<T, E>> {
+	private readonly iterate: () => AsyncIterator<Result<T, E>>;
+
+	private constructor(iterate: () => AsyncIterator<Result<T, E>>) {
+		this.iterate = iterate;
+	}
+
+	/**
+	 * Creates a `ResultStream` from an iterable of results. A synchronous iterable may also
+	 * contain `ResultAsync`s, which are awaited in order.
+	 *
+	 * @example
+	 * ```ts
+	 * async function* fetchPages(url: string): AsyncGenerator<Result<Page, FetchError>> {
+	 *   // ...
+	 * }
+	 *
+	 * const pages = ResultStream.from(fetchPages("/users")); // ResultStream<Page, FetchError>
+	 * const users = ResultStream.from(ids.map(fetchUser)); // ResultStream<User, FetchError>
+	 * ```
+	 *
+	 * @template T - The type of the success values.
+	 * @template E - The type of the error values.
+	 *
+	 * @param results - The results to stream.
+	 *
+	 * @returns A `ResultStream` of the results.
+	 */
+	static from<T, E>(
+		results: AsyncIterable<Result<T, E>> | Iterable<Result<T, E> | ResultAsync<T, E>>,
+	): ResultStream<T, E> {
+		return new ResultStream(async function* () {
+			yield* results;
+		});
+	}
+
+	/**
+	 * Creates a `ResultStream` from an iterable of plain values, wrapping each value in an `Ok`.
+	 * If the iterator throws, or a value of a synchronous iterable rejects, the stream ends with an
+	 * `Err` containing the caught value, converted by `mapError` if given.
+	 *
+	 * @example
+	 * ```ts
+	 * const entries = ResultStream.fromAsyncIterable(
+	 *   await opendir(path),
+	 *   (caught) => new WalkError({ cause: caught }),
+	 * );
+	 * // ResultStream<Dirent, WalkError>
+	 * ```
+	 *
+	 * @template T - The type of the values.
+	 * @template E - The type of the error value (defaults to `unknown`).
+	 *
+	 * @param iterable - The values to stream.
+	 * @param mapError - Converts the caught value into the error value.
+	 *
+	 * @returns A `ResultStream` of the values, ending with an `Err` if the iterator throws.
+	 */
+	static fromAsyncIterable<T, E = unknown>(
+		iterable: AsyncIterable<T> | Iterable<T>,
+		mapError?: (caught: unknown) => E,
+	): ResultStream<Awaited<T>, E> {
+		return new ResultStream(() => catchValues(iterable, mapError));
+	}
+
+	/**
+	 * Creates a `ResultStream` from the chunks of a `ReadableStream` or an `AsyncIterable`,
+	 * wrapping each chunk in an `Ok`. If the stream errors, is already locked, or the iterator
+	 * throws, the stream ends with an `Err` containing the caught value, converted by `mapError`
+	 * if given.
+	 *
+	 * A `ReadableStream` is locked while it is read. Its lock is released once reading ends, by
+	 * completion, error or an early exit such as `break`, and it is not cancelled, so the rest of
+	 * it can still be read or cancelled by the caller. An `AsyncIterable` has `return()` called on
+	 * early exit.
+	 *
+	 * @example
+	 * ```ts
+	 * const chunks = ResultStream.fromStream(
+	 *   upload.stream(),
+	 *   (caught) => new UploadError({ cause: caught }),
+	 * );
+	 * // ResultStream<Uint8Array, UploadError>
+	 *
+	 * const parts = await chunks.collect(); // Result<Uint8Array[], UploadError>
+	 * ```
+	 *
+	 * @template T - The type of the chunks.
+	 * @template E - The type of the error value (defaults to `unknown`).
+	 *
+	 * @param stream - The stream to read.
+	 * @param mapError - Converts the caught value into the error value.
+	 *
+	 * @returns A `ResultStream` of the chunks, ending with an `Err` if the stream errors.
+	 */
+	static fromStream<T, E = unknown>(
+		stream: ReadableStream<T> | AsyncIterable<T>,
+		mapError?: (caught: unknown) => E,
+	): ResultStream<T, E> {
+		if (!isReadableStream(stream)) {
+			return new ResultStream(() => catchValues(stream, mapError));
+		}
+
+		return new ResultStream(async function* () {
+			let reader: ReadableStreamDefaultReader<T>;
+			try {
+				reader = stream.getReader();
+			} catch (caught) {
+				// The stream is already locked by another reader.
+				yield err(toError(caught, mapError));
+				return;
+			}
+
+			try {
+				yield* catchValues(chunks(reader), mapError);
+			} finally {
+				reader.releaseLock();
+			}
+		});
+	}
+
+	/**
+	 * Maps every `Ok` value, passing errors through.
+	 *
+	 * @example
+	 * ```ts
+	 * const names = users.map((user) => user.name); // ResultStream<string, FetchError>
+	 * ```
+	 *
+	 * @template U - The type of the new success values.
+	 *
+	 * @param fn - The function to apply to each success value.
+	 *
+	 * @returns A new `ResultStream` with the mapped success values.
+	 */
+	map<U>(fn: (value: T) => MaybePromise<U>): ResultStream<U, E> {
+		return this.pipe((result) => result.toAsync().map(fn));
+	}
+
+	/**
+	 * Maps every `Err` value, passing successes through.
+	 *
+	 * @example
+	 * ```ts
+	 * const users = pages.mapErr((error) => new ApiError(error)); // ResultStream<Page, ApiError>
+	 * ```
+	 *
+	 * @template F - The type of the new error values.
+	 *
+	 * @param fn - The function to apply to each error value.
+	 *
+	 * @returns A new `ResultStream` with the mapped error values.
+	 */
+	mapErr<F>(fn: (error: E) => MaybePromise<F>): ResultStream<T, F> {
+		return this.pipe((result) => result.toAsync().mapErr(fn));
+	}
+
+	/**
+	 * Chains an operation on every `Ok` value, replacing it with the operation's result. Errors
+	 * are passed through.
+	 *
+	 * @example
+	 * ```ts
+	 * const profiles = users.andThen((user) => fetchProfile(user.id));
+	 * // ResultStream<Profile, FetchError>
+	 * ```
+	 *
+	 * @template U - The type of the new success values.
+	 * @template F - The type of the new error values.
+	 *
+	 * @param fn - The function to call with each success value.
+	 *
+	 * @returns A new `ResultStream` with the results of `fn`.
+	 */
+	andThen<U, F>(
+		fn: (value: T) => MaybePromise<Result<U, F>> | ResultAsync<U, F>,
+	): ResultStream<U, E | F> {
+		return this.pipe((result) => result.toAsync().andThen(fn));
+	}
+
+	/**
+	 * Drops every `Err`, keeping only the `Ok` results.
+	 *
+	 * @example
+	 * ```ts
+	 * const readable = files.andThen(readFile).filterOk(); // ResultStream<string, never>
+	 * ```
+	 *
+	 * @returns A new `ResultStream` without errors.
+	 */
+	filterOk(): ResultStream<T, never> {
+		const source = this;
+		return new ResultStream(async function* () {
+			for await (const result of source) {
+				if (result.isOk()) {
+					// Cast avoids allocating a new Ok; the error type is phantom here.
+					yield result as Result<T, never>;
+				}
+			}
+		});
+	}
+
+	/**
+	 * Ends the stream at its first `Err`, which is still yielded. The source is not iterated any
+	 * further.
+	 *
+	 * @example
+	 * ```ts
+	 * for await (const result of pages.takeWhileOk()) {
+	 *   // every page up to the first failure, then the failure
+	 * }
+	 * ```
+	 *
+	 * @returns A new `ResultStream` that stops after the first error.
+	 */
+	takeWhileOk(): ResultStream<T, E> {
+		const source = this;
+		return new ResultStream(async function* () {
+			for await (const result of source) {
+				yield result;
+				if (result.isErr()) {
+					return;
+				}
+			}
+		});
+	}
+
+	/**
+	 * Collects the `Ok` values into an array, stopping at the first `Err`. The source is not
+	 * iterated any further.
+	 *
+	 * @example
+	 * ```ts
+	 * const users = await ResultStream.from(fetchPages("/users")).collect();
+	 * // Result<Page[], FetchError>
+	 * ```
+	 *
+	 * @returns A `ResultAsync` containing every value, or the first error.
+	 */
+	collect(): ResultAsync<T[], E> {
+		return ResultAsync.fromPromise(
+			(async (): Promise<Result<T[], E>> => {
+				const values: T[] = [];
+				for await (const result of this) {
+					if (result.isErr()) {
+						// Cast avoids allocating a new Err; the value type is phantom here.
+						return result as Err<T[], E>;
+					}
+					values.push(result.value);
+				}
+
+				return ok(values);
+			})(),
+		);
+	}
+
+	/**
+	 * Iterates the whole stream and collects every value, or every error if there were any.
+	 *
+	 * @example
+	 * ```ts
+	 * const files = await ResultStream.from(paths.map(readFile)).collectAll();
+	 * // Result<string[], ReadError[]>
+	 * ```
+	 *
+	 * @returns A `ResultAsync` containing every value, or every error.
+	 */
+	collectAll(): ResultAsync<T[], E[]> {
+		return ResultAsync.fromPromise(
+			(async () => {
+				const results: Result<T, E>[] = [];
+				for await (const result of this) {
+					results.push(result);
+				}
+
+				return Result.allErrors(results);
+			})(),
+		);
+	}
+
+	[Symbol.asyncIterator](): AsyncIterator<Result<T, E>> {
+		return this.iterate();
+	}
+
+	/**
+	 * Creates a stream that replaces every result of this one with the result of `fn`.
+	 */
+	private pipe<U, F>(fn: (result: Result<T, E>) => ResultAsync<U, F>): ResultStream<U, F> {
+		const source = this;
+		return new ResultStream(async function* () {
+			for await (const result of source) {
+				yield fn(result);
+			}
+		});
+	}
+}
+
+/**
+ * Wraps every value of `iterable` in an `Ok`, ending with an `Err` if iterating it throws.
+ */
+async function* catchValues<T, E>(
+	iterable: AsyncIterable<T> | Iterable<T>,
+	mapError: ((caught: unknown) => E) | undefined,
+): AsyncGenerator<Result<Awaited<T>, E>> {
+	try {
+		for await (const value of iterable) {
+			yield ok(value);
+		}
+	} catch (caught) {
+		yield err(toError(caught, mapError));
+	}
+}
+
+function isReadableStream<T>(
+	stream: ReadableStream<T> | AsyncIterable<T>,
+): stream is ReadableStream<T> {
+	return typeof (stream as Partial<ReadableStream<T>>).getReader === "function";
+}
+
+/**
+ * Reads the chunks of a locked stream. Unlike the stream's own async iterator, it does not
+ * cancel the stream on early exit.
+ */
+function chunks<T>(reader: ReadableStreamDefaultReader<T>): AsyncIterable<T> {
+	return {
+		[Symbol.asyncIterator]: () => ({
+			next: () => reader.read() as Promise<IteratorResult<T>>,
+		}),
+	};
+}
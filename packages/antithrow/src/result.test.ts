@@ -1,7 +1,16 @@
 import { describe, expect, expectTypeOf, test } from "bun:test";
-import type { Err, Ok } from "./result.js";
-import { err, ok, Result } from "./result.js";
+import { inspect } from "node:util";
+import { chain } from "./chain.js";
+import { ContextError } from "./context.js";
+import { ResultJSONError } from "./json.js";
+import type { Option } from "./option.js";
+import { none, some } from "./option.js";
+import type { Err } from "./result.js";
+import { err, Ok, ok, Result } from "./result.js";
 import type { ResultAsync } from "./result-async.js";
+import { okAsync } from "./result-async.js";
+import { TaggedError } from "./tagged-error.js";
+import { UnwrapError } from "./unwrap-error.js";
 
 describe("Result", () => {
 	describe("ok", () => {
@@ -73,6 +82,13 @@ describe("Result", () => {
 			const result = err("error");
 			expect(() => result.unwrap()).toThrow("Called unwrap on an Err value: error");
 		});
+
+		test("throws an UnwrapError caused by the error", () => {
+			const cause = new Error("boom");
+			const thrown = Result.try(() => err(cause).unwrap()).unwrapErr();
+			expect(thrown).toBeInstanceOf(UnwrapError);
+			expect(thrown).toMatchObject({ value: cause, cause });
+		});
 	});
 
 	describe("unwrapErr", () => {
@@ -85,6 +101,13 @@ describe("Result", () => {
 			const result = ok(42);
 			expect(() => result.unwrapErr()).toThrow("Called unwrapErr on an Ok value: 42");
 		});
+
+		test("throws an UnwrapError holding the value", () => {
+			const thrown = Result.try(() => ok(42).unwrapErr()).unwrapErr();
+			expect(thrown).toBeInstanceOf(UnwrapError);
+			expect(thrown).toMatchObject({ value: 42 });
+			expect(thrown).not.toHaveProperty("cause");
+		});
 	});
 
 	describe("expect", () => {
@@ -97,6 +120,12 @@ describe("Result", () => {
 			const result = err("error");
 			expect(() => result.expect("missing value")).toThrow("missing value");
 		});
+
+		test("throws an UnwrapError caused by the error", () => {
+			const thrown = Result.try(() => err("error").expect("missing value")).unwrapErr();
+			expect(thrown).toBeInstanceOf(UnwrapError);
+			expect(thrown).toMatchObject({ value: "error", cause: "error" });
+		});
 	});
 
 	describe("expectErr", () => {
@@ -109,6 +138,12 @@ describe("Result", () => {
 			const result = ok(42);
 			expect(() => result.expectErr("expected error")).toThrow("expected error");
 		});
+
+		test("throws an UnwrapError holding the value", () => {
+			const thrown = Result.try(() => ok(42).expectErr("expected error")).unwrapErr();
+			expect(thrown).toBeInstanceOf(UnwrapError);
+			expect(thrown).toMatchObject({ value: 42 });
+		});
 	});
 
 	describe("unwrapOr", () => {
@@ -400,6 +435,63 @@ describe("Result", () => {
 		});
 	});
 
+	describe("andThrough", () => {
+		const checkStock = (quantity: number): Result<void, "out_of_stock"> =>
+			quantity <= 3 ? ok() : err("out_of_stock");
+
+		test("returns the original result if fn returns Ok", () => {
+			const original = ok<number, string>(2);
+			expect(original.andThrough(() => ok("ignored"))).toBe(original);
+		});
+
+		test("returns the Err of fn", () => {
+			expect(ok(5).andThrough(checkStock)).toEqual(err("out_of_stock"));
+		});
+
+		test("calls fn with the value", () => {
+			let seen: number | undefined;
+			ok(2).andThrough((x) => {
+				seen = x;
+				return ok();
+			});
+			expect(seen).toBe(2);
+		});
+
+		test("does not call fn for Err", () => {
+			let called = false;
+			const original = err<number, string>("oops");
+			const result = original.andThrough(() => {
+				called = true;
+				return err("other");
+			});
+			expect(result).toBe(original);
+			expect(called).toBe(false);
+		});
+	});
+
+	describe("orThrough", () => {
+		test("returns the original result if fn returns Ok", () => {
+			const original = err<number, string>("oops");
+			expect(original.orThrough(() => ok("reported"))).toBe(original);
+		});
+
+		test("returns the Err of fn", () => {
+			const result = err("oops").orThrough((e) => err(`failed to report ${e}`));
+			expect(result).toEqual(err("failed to report oops"));
+		});
+
+		test("does not call fn for Ok", () => {
+			let called = false;
+			const original = ok<number, string>(42);
+			const result = original.orThrough(() => {
+				called = true;
+				return err("other");
+			});
+			expect(result).toBe(original);
+			expect(called).toBe(false);
+		});
+	});
+
 	describe("flatten", () => {
 		test("flattens Ok(Ok(value)) to Ok(value)", () => {
 			const result = ok(ok(42)).flatten();
@@ -427,6 +519,41 @@ describe("Result", () => {
 		});
 	});
 
+	describe("ok method", () => {
+		test("returns Some for Ok", () => {
+			expect(ok(42).ok().unwrap()).toBe(42);
+		});
+
+		test("returns None for Err", () => {
+			expect(err("oops").ok().isNone()).toBe(true);
+		});
+	});
+
+	describe("err method", () => {
+		test("returns None for Ok", () => {
+			expect(ok(42).err().isNone()).toBe(true);
+		});
+
+		test("returns Some for Err", () => {
+			expect(err("oops").err().unwrap()).toBe("oops");
+		});
+	});
+
+	describe("transpose", () => {
+		test("maps Ok(Some) to Some(Ok)", () => {
+			expect(ok(some(42)).transpose().unwrap().unwrap()).toBe(42);
+		});
+
+		test("maps Ok(None) to None", () => {
+			expect(ok(none()).transpose().isNone()).toBe(true);
+		});
+
+		test("maps Err to Some(Err)", () => {
+			const result: Result<Option<number>, string> = err("oops");
+			expect(result.transpose().unwrap().unwrapErr()).toBe("oops");
+		});
+	});
+
 	describe("Result.try", () => {
 		test("returns Ok when function succeeds", () => {
 			const result = Result.try(() => 42);
@@ -470,6 +597,214 @@ describe("Result", () => {
 			expect(value.name).toBe("test");
 			expect(value.value).toBe(123);
 		});
+
+		test("maps the thrown value with mapError", () => {
+			const result = Result.try(
+				() => JSON.parse("invalid json"),
+				(caught) => `parse failed: ${caught instanceof SyntaxError}`,
+			);
+			expect(result.unwrapErr()).toBe("parse failed: true");
+		});
+
+		test("does not call mapError on success", () => {
+			let called = false;
+			const result = Result.try(
+				() => 42,
+				() => {
+					called = true;
+				},
+			);
+			expect(result.unwrap()).toBe(42);
+			expect(called).toBe(false);
+		});
+
+		test("catches values accepted by catchIf", () => {
+			const result = Result.try(() => JSON.parse("invalid json"), {
+				catchIf: (caught) => caught instanceof SyntaxError,
+			});
+			expect(result.unwrapErr()).toBeInstanceOf(SyntaxError);
+		});
+
+		test("maps values accepted by catchIf", () => {
+			const result = Result.try(() => JSON.parse("invalid json"), {
+				catchIf: (caught) => caught instanceof SyntaxError,
+				mapError: (caught) => caught.name,
+			});
+			expect(result.unwrapErr()).toBe("SyntaxError");
+		});
+
+		test("rethrows values rejected by catchIf", () => {
+			const defect = new TypeError("defect");
+			expect(() =>
+				Result.try(
+					() => {
+						throw defect;
+					},
+					{ catchIf: (caught) => caught instanceof SyntaxError },
+				),
+			).toThrow(defect);
+		});
+	});
+
+	describe("Result.fromThrowable", () => {
+		test("returns Ok with the function's return value", () => {
+			const parse = Result.fromThrowable(JSON.parse);
+			expect(parse('{"a": 1}').unwrap()).toEqual({ a: 1 });
+		});
+
+		test("returns Err with the thrown value", () => {
+			const parse = Result.fromThrowable(JSON.parse);
+			expect(parse("invalid json").unwrapErr()).toBeInstanceOf(SyntaxError);
+		});
+
+		test("maps the thrown value with mapError", () => {
+			const parse = Result.fromThrowable(JSON.parse, (caught) => (caught as Error).name);
+			expect(parse("invalid json").unwrapErr()).toBe("SyntaxError");
+		});
+
+		test("passes every argument through", () => {
+			const join = Result.fromThrowable((...parts: string[]) => parts.join("-"));
+			expect(join("a", "b", "c").unwrap()).toBe("a-b-c");
+		});
+
+		test("forwards this", () => {
+			const counter = {
+				count: 1,
+				next: Result.fromThrowable(function (this: { count: number }) {
+					return this.count + 1;
+				}),
+			};
+			expect(counter.next().unwrap()).toBe(2);
+		});
+
+		test("does not call the function until the wrapper is called", () => {
+			let calls = 0;
+			const wrapped = Result.fromThrowable(() => {
+				calls += 1;
+			});
+			expect(calls).toBe(0);
+			wrapped();
+			wrapped();
+			expect(calls).toBe(2);
+		});
+	});
+
+	describe("context", () => {
+		test("wraps the error in a ContextError", () => {
+			const error = new Error("ENOENT");
+			const wrapped = err(error).context("loading config").unwrapErr();
+			expect(wrapped).toBeInstanceOf(ContextError);
+			expect(wrapped.message).toBe("loading config");
+			expect(wrapped.cause).toBe(error);
+		});
+
+		test("returns Ok unchanged", () => {
+			expect(ok(42).context("loading config").unwrap()).toBe(42);
+		});
+	});
+
+	describe("withContext", () => {
+		test("computes the context from the error", () => {
+			const wrapped = err("ENOENT")
+				.withContext((e) => `loading config (${e})`)
+				.unwrapErr();
+			expect(wrapped.message).toBe("loading config (ENOENT)");
+			expect(wrapped.cause).toBe("ENOENT");
+		});
+
+		test("does not call fn for Ok", () => {
+			let called = false;
+			const result = ok(42).withContext(() => {
+				called = true;
+				return "loading config";
+			});
+			expect(result.unwrap()).toBe(42);
+			expect(called).toBe(false);
+		});
+	});
+
+	describe("catchTag", () => {
+		class NotFound extends TaggedError("NotFound")<{ resource: string }> {}
+		class Unauthorized extends TaggedError("Unauthorized") {}
+
+		test("recovers from an error with the tag", () => {
+			const result: Result<string, NotFound | Unauthorized> = err(
+				new NotFound({ resource: "user" }),
+			);
+			expect(result.catchTag("NotFound", (e) => ok(`guest ${e.resource}`)).unwrap()).toBe(
+				"guest user",
+			);
+		});
+
+		test("propagates errors with other tags", () => {
+			const error = new Unauthorized();
+			const result: Result<string, NotFound | Unauthorized> = err(error);
+			expect(result.catchTag("NotFound", () => ok("guest")).unwrapErr()).toBe(error);
+		});
+
+		test("does not call fn for Ok", () => {
+			let called = false;
+			const result: Result<string, NotFound> = ok("alice");
+			const caught = result.catchTag("NotFound", () => {
+				called = true;
+				return ok("guest");
+			});
+			expect(caught.unwrap()).toBe("alice");
+			expect(called).toBe(false);
+		});
+	});
+
+	describe("catchIf", () => {
+		class ParseError extends TaggedError("ParseError") {}
+		class IoError extends TaggedError("IoError") {}
+
+		test("recovers from an error that is an instance of the class", () => {
+			const result: Result<number, ParseError | IoError> = err(new ParseError({ message: "bad" }));
+			expect(result.catchIf(ParseError, (e) => ok(e.message.length)).unwrap()).toBe(3);
+		});
+
+		test("propagates errors of other classes", () => {
+			const error = new IoError();
+			const result: Result<number, ParseError | IoError> = err(error);
+			expect(result.catchIf(ParseError, () => ok(0)).unwrapErr()).toBe(error);
+		});
+
+		test("propagates non-object errors", () => {
+			const result: Result<number, string> = err("oops");
+			expect(result.catchIf(Error, () => ok(0)).unwrapErr()).toBe("oops");
+		});
+	});
+
+	describe("matchTag", () => {
+		class NotFound extends TaggedError("NotFound")<{ resource: string }> {}
+		class Unauthorized extends TaggedError("Unauthorized") {}
+		const handlers = {
+			ok: (value: number) => `ok: ${value}`,
+			NotFound: (e: NotFound) => `missing ${e.resource}`,
+			Unauthorized: () => "denied",
+		};
+
+		test("calls ok handler for Ok", () => {
+			const result: Result<number, NotFound | Unauthorized> = ok(42);
+			expect(result.matchTag(handlers)).toBe("ok: 42");
+		});
+
+		test("calls the handler for the error's tag", () => {
+			const notFound: Result<number, NotFound | Unauthorized> = err(
+				new NotFound({ resource: "user" }),
+			);
+			const unauthorized: Result<number, NotFound | Unauthorized> = err(new Unauthorized());
+			expect(notFound.matchTag(handlers)).toBe("missing user");
+			expect(unauthorized.matchTag(handlers)).toBe("denied");
+		});
+
+		test("works with plain tagged objects", () => {
+			const result: Result<number, { _tag: "A" } | { _tag: "B"; code: number }> = err({
+				_tag: "B",
+				code: 7,
+			});
+			expect(result.matchTag({ ok: () => 0, A: () => 1, B: (e) => e.code })).toBe(7);
+		});
 	});
 
 	describe("toAsync", () => {
@@ -507,12 +842,252 @@ describe("Result", () => {
 		});
 	});
 
+	describe("brand checks", () => {
+		// Simulates an instance created by another copy of antithrow: same shape and brand,
+		// but a different class.
+		const foreign = <R extends object>(instance: R): R => {
+			const prototype = Object.create(
+				Object.prototype,
+				Object.getOwnPropertyDescriptors(Object.getPrototypeOf(instance)),
+			);
+			return Object.assign(Object.create(prototype), instance);
+		};
+
+		test("Result.isResult recognizes Ok and Err", () => {
+			expect(Result.isResult(ok(1))).toBe(true);
+			expect(Result.isResult(err("oops"))).toBe(true);
+		});
+
+		test("Result.isResult rejects other values", () => {
+			for (const value of [null, undefined, 1, "ok", { value: 1 }, { ok: true, value: 1 }]) {
+				expect(Result.isResult(value)).toBe(false);
+			}
+			expect(Result.isResult(okAsync(1))).toBe(false);
+		});
+
+		test("Result.isOk and Result.isErr tell the variants apart", () => {
+			expect(Result.isOk(ok(1))).toBe(true);
+			expect(Result.isOk(err("oops"))).toBe(false);
+			expect(Result.isErr(err("oops"))).toBe(true);
+			expect(Result.isErr(ok(1))).toBe(false);
+			expect(Result.isOk({ value: 1 })).toBe(false);
+		});
+
+		test("recognize instances from another copy", () => {
+			const value = foreign(ok(1));
+			const error = foreign(err("oops"));
+			expect(value).not.toBeInstanceOf(Ok);
+			expect(Result.isResult(value)).toBe(true);
+			expect(Result.isOk(value)).toBe(true);
+			expect(Result.isErr(error)).toBe(true);
+		});
+
+		test("the brand is not an own property", () => {
+			expect(Object.getOwnPropertySymbols(ok(1))).toEqual([]);
+		});
+
+		test("chain and Result.all accept instances from another copy", () => {
+			const sum = chain(function* () {
+				const a = yield* foreign(ok(1));
+				const b = yield* foreign(ok(2));
+				return a + b;
+			});
+			expect(sum.unwrap()).toBe(3);
+
+			const failed = chain(function* () {
+				return yield* foreign(err("oops"));
+			});
+			expect(failed.unwrapErr()).toBe("oops");
+			expect(Result.all([foreign(ok(1)), ok(2)]).unwrap()).toEqual([1, 2]);
+		});
+	});
+
+	describe("toString", () => {
+		test("renders Ok and Err", () => {
+			expect(ok(42).toString()).toBe("Ok(42)");
+			expect(err("oops").toString()).toBe('Err("oops")');
+			expect(ok().toString()).toBe("Ok(undefined)");
+		});
+
+		test("renders errors by name and fields", () => {
+			class NotFound extends TaggedError("NotFound")<{ resource: string }> {}
+			expect(`${err(new NotFound({ resource: "user" }))}`).toBe(
+				'Err(NotFound { resource: "user" })',
+			);
+		});
+
+		test("renders a result that contains itself", () => {
+			const holder: { result?: unknown } = {};
+			const result = ok(holder);
+			holder.result = result;
+			expect(result.toString()).toBe("Ok({ result: [Circular] })");
+			expect(inspect(result)).toBe("Ok({ result: [Circular] })");
+		});
+
+		test("is used by util.inspect", () => {
+			expect(inspect(ok({ id: 1 }))).toBe("Ok({ id: 1 })");
+			expect(inspect([err("oops")])).toContain('Err("oops")');
+		});
+	});
+
+	describe("toJSON", () => {
+		class NotFound extends TaggedError("NotFound")<{ id: number }> {}
+
+		const roundTrip = (result: Result<unknown, unknown>) =>
+			Result.fromJSON(JSON.parse(JSON.stringify(result))).unwrap();
+
+		test("serializes Ok and Err", () => {
+			expect(JSON.stringify(ok(42))).toBe('{"ok":true,"value":42}');
+			expect(JSON.stringify(err("oops"))).toBe('{"ok":false,"error":"oops"}');
+		});
+
+		test("serializes an Error with its name, message, fields and cause", () => {
+			const error = new NotFound({ id: 1, message: "No such user", cause: new Error("404") });
+			expect(err(error).toJSON()).toEqual({
+				ok: false,
+				error: {
+					$error: true,
+					_tag: "NotFound",
+					name: "NotFound",
+					message: "No such user",
+					id: 1,
+					cause: { $error: true, name: "Error", message: "404" },
+				},
+			});
+		});
+
+		test("drops a cause that closes a cycle", () => {
+			const error = new Error("outer");
+			error.cause = error;
+			expect(err(error).toJSON()).toEqual({
+				ok: false,
+				error: { $error: true, name: "Error", message: "outer" },
+			});
+		});
+
+		test("round-trips through JSON", () => {
+			expect(roundTrip(ok({ a: [1, 2] }))).toEqual(ok({ a: [1, 2] }));
+			expect(roundTrip(err("oops"))).toEqual(err("oops"));
+		});
+
+		test("revives errors with their name, message, fields and cause", () => {
+			const error = new NotFound({ id: 1, message: "No such user", cause: new Error("404") });
+			const revived = roundTrip(err(error)).unwrapErr();
+			expect(revived).toBeInstanceOf(Error);
+			expect(revived).toMatchObject({ _tag: "NotFound", name: "NotFound", id: 1 });
+			expect((revived as Error).message).toBe("No such user");
+			expect((revived as Error).cause).toBeInstanceOf(Error);
+			expect(((revived as Error).cause as Error).message).toBe("404");
+		});
+
+		test("revived tagged errors can be matched by tag", () => {
+			const revived = roundTrip(err(new NotFound({ id: 1 }))) as Result<number, NotFound>;
+			expect(revived.catchTag("NotFound", (e) => ok(e.id)).unwrap()).toBe(1);
+		});
+	});
+
+	describe("Result.fromJSON", () => {
+		test("revives Ok and Err", () => {
+			expect(Result.fromJSON({ ok: true, value: 42 }).unwrap()).toEqual(ok(42));
+			expect(Result.fromJSON({ ok: false, error: "oops" }).unwrap()).toEqual(err("oops"));
+		});
+
+		test("revives an Ok without a value", () => {
+			expect(Result.fromJSON(JSON.parse(JSON.stringify(ok()))).unwrap()).toEqual(ok());
+		});
+
+		test("does not let error fields replace the prototype or stack", () => {
+			const data = JSON.parse(
+				'{"ok":false,"error":{"$error":true,"name":"X","message":"m","__proto__":{"polluted":1},"stack":"fake","code":1}}',
+			);
+			const error = Result.fromJSON(data).unwrap().unwrapErr();
+			expect(error).toBeInstanceOf(Error);
+			expect(Object.getPrototypeOf(error)).toBe(Error.prototype);
+			expect("polluted" in (error as object)).toBe(false);
+			expect((error as Error).stack).not.toBe("fake");
+			expect(error).toMatchObject({ code: 1 });
+		});
+
+		test("rejects data that is not a serialized result", () => {
+			for (const data of [null, 42, "ok", {}, { ok: "yes", value: 1 }]) {
+				const error = Result.fromJSON(data).unwrapErr();
+				expect(error).toBeInstanceOf(ResultJSONError);
+				expect(error.message).toBe("Expected a serialized Result");
+			}
+		});
+
+		test("validates the value", () => {
+			const value = (input: unknown) =>
+				typeof input === "number" ? ok(input) : err("not a number");
+			expect(Result.fromJSON({ ok: true, value: 42 }, { value }).unwrap()).toEqual(ok(42));
+
+			const error = Result.fromJSON({ ok: true, value: "42" }, { value }).unwrapErr();
+			expect(error.message).toBe("Invalid value in serialized Ok");
+			expect(error.cause).toBe("not a number");
+		});
+
+		test("validates the revived error", () => {
+			const error = (input: unknown) => (input instanceof Error ? ok(input) : err("not an Error"));
+			const revived = Result.fromJSON(err(new Error("boom")).toJSON(), { error }).unwrap();
+			expect(revived.unwrapErr()).toBeInstanceOf(Error);
+
+			const invalid = Result.fromJSON({ ok: false, error: "boom" }, { error }).unwrapErr();
+			expect(invalid.message).toBe("Invalid error in serialized Err");
+			expect(invalid.cause).toBe("not an Error");
+		});
+	});
+
 	describe("types", () => {
+		test("andThrough and orThrough keep the value type and union the errors", () => {
+			const result: Result<number, "a"> = ok(1);
+			expectTypeOf(result.andThrough(() => err("b" as const))).toEqualTypeOf<
+				Result<number, "a" | "b">
+			>();
+			expectTypeOf(result.orThrough(() => ok("c"))).toEqualTypeOf<Result<number, "a">>();
+		});
+
 		test("ok returns Ok<T, E>", () => {
 			const result = ok(42);
 			expectTypeOf(result).toEqualTypeOf<Ok<number, never>>();
 		});
 
+		test("toJSON maps errors to their JSON shape", () => {
+			const result: Result<number, Error | "oops"> = ok(1);
+			const json = result.toJSON();
+			if (json.ok) {
+				expectTypeOf(json.value).toEqualTypeOf<number>();
+			} else {
+				expectTypeOf(json.error).toExtend<"oops" | { $error: true; name: string }>();
+			}
+		});
+
+		test("Result.isOk and Result.isErr narrow a Result", () => {
+			const parse = (input: string): Result<number, string> =>
+				input ? ok(input.length) : err("empty");
+			const result = parse("abc");
+			if (Result.isOk(result)) {
+				expectTypeOf(result).toEqualTypeOf<Ok<number, string>>();
+			}
+			if (Result.isErr(result)) {
+				expectTypeOf(result).toEqualTypeOf<Err<number, string>>();
+			}
+		});
+
+		test("Result.isResult narrows unknown", () => {
+			const value: unknown = ok(1);
+			if (Result.isResult(value)) {
+				expectTypeOf(value).toEqualTypeOf<Result<unknown, unknown>>();
+			}
+		});
+
+		test("fromJSON infers types from the validators", () => {
+			expectTypeOf(Result.fromJSON({})).toEqualTypeOf<
+				Result<Result<unknown, unknown>, ResultJSONError>
+			>();
+			const parsed = Result.fromJSON({}, { value: (value) => ok(String(value)) });
+			expectTypeOf(parsed).toEqualTypeOf<Result<Result<string, unknown>, ResultJSONError>>();
+		});
+
 		test("ok with no arguments returns Ok<void, E>", () => {
 			const result = ok();
 			expectTypeOf(result).toEqualTypeOf<Ok<void, never>>();
@@ -706,6 +1281,21 @@ describe("Result", () => {
 			expectTypeOf(inspected).toEqualTypeOf<Result<number, string>>();
 		});
 
+		test("ok returns Option<T>", () => {
+			const result: Result<number, string> = ok(42);
+			expectTypeOf(result.ok()).toEqualTypeOf<Option<number>>();
+		});
+
+		test("err returns Option<E>", () => {
+			const result: Result<number, string> = ok(42);
+			expectTypeOf(result.err()).toEqualTypeOf<Option<string>>();
+		});
+
+		test("transpose returns Option<Result<T, E>>", () => {
+			const result: Result<Option<number>, string> = ok(some(42));
+			expectTypeOf(result.transpose()).toEqualTypeOf<Option<Result<number, string>>>();
+		});
+
 		test("toAsync returns ResultAsync<T, E>", () => {
 			const result: Result<number, string> = ok(42);
 			const async_ = result.toAsync();
@@ -722,6 +1312,112 @@ describe("Result", () => {
 			expectTypeOf(result).toEqualTypeOf<Result<number, Error>>();
 		});
 
+		test("Result.try with mapError infers the error type", () => {
+			const result = Result.try(
+				() => 42,
+				(caught) => new Error("wrapped", { cause: caught }),
+			);
+			expectTypeOf(result).toEqualTypeOf<Result<number, Error>>();
+		});
+
+		test("Result.try with catchIf narrows the error type", () => {
+			const result = Result.try(() => 42, {
+				catchIf: (caught) => caught instanceof SyntaxError,
+			});
+			expectTypeOf(result).toEqualTypeOf<Result<number, SyntaxError>>();
+		});
+
+		test("Result.try with catchIf and mapError uses the mapped type", () => {
+			const result = Result.try(() => 42, {
+				catchIf: (caught): caught is SyntaxError => caught instanceof SyntaxError,
+				mapError: (caught) => {
+					expectTypeOf(caught).toEqualTypeOf<SyntaxError>();
+					return caught.message;
+				},
+			});
+			expectTypeOf(result).toEqualTypeOf<Result<number, string>>();
+		});
+
+		test("Result.try with a boolean catchIf requires mapError", () => {
+			const result = Result.try(() => 42, {
+				catchIf: (caught) => String(caught).length > 0,
+				mapError: () => "failed" as const,
+			});
+			expectTypeOf(result).toEqualTypeOf<Result<number, "failed">>();
+		});
+
+		test("Result.fromThrowable keeps the parameters", () => {
+			const wrapped = Result.fromThrowable(
+				(a: string, b?: number) => a.length + (b ?? 0),
+				() => "failed" as const,
+			);
+			expectTypeOf(wrapped).toEqualTypeOf<(a: string, b?: number) => Result<number, "failed">>();
+		});
+
+		test("Result.fromThrowable keeps overloads", () => {
+			function format(value: number): string;
+			function format(value: string, width: number): string[];
+			function format(value: number | string, width?: number): string | string[] {
+				return typeof value === "number" ? String(value) : [value.padStart(width ?? 0)];
+			}
+			const wrapped = Result.fromThrowable(format);
+			expectTypeOf(wrapped(1)).toEqualTypeOf<Result<string, unknown>>();
+			expectTypeOf(wrapped("a", 2)).toEqualTypeOf<Result<string[], unknown>>();
+		});
+
+		test("context wraps the error type in ContextError", () => {
+			const result: Result<number, string> = ok(1);
+			expectTypeOf(result.context("ctx")).toEqualTypeOf<Result<number, ContextError<string>>>();
+			expectTypeOf(result.withContext(() => "ctx")).toEqualTypeOf<
+				Result<number, ContextError<string>>
+			>();
+		});
+
+		test("catchTag removes the tag from the error type", () => {
+			const result: Result<number, { _tag: "A"; a: string } | { _tag: "B" }> = ok(1);
+			const caught = result.catchTag("A", (e) => {
+				expectTypeOf(e).toEqualTypeOf<{ _tag: "A"; a: string }>();
+				return err("recovery failed" as const);
+			});
+			expectTypeOf(caught).toEqualTypeOf<Result<number, { _tag: "B" } | "recovery failed">>();
+		});
+
+		test("catchTag only accepts tags of the error type", () => {
+			const result: Result<number, { _tag: "A" }> = ok(1);
+			// @ts-expect-error - "B" is not a tag of the error type
+			result.catchTag("B", () => ok(0));
+		});
+
+		test("catchIf removes the class from the error type", () => {
+			class NotFound extends TaggedError("NotFound") {}
+			class Unauthorized extends TaggedError("Unauthorized") {}
+			const result: Result<number, NotFound | Unauthorized> = ok(1);
+			const caught = result.catchIf(NotFound, (e) => {
+				expectTypeOf(e).toEqualTypeOf<NotFound>();
+				return ok(0);
+			});
+			expectTypeOf(caught).toEqualTypeOf<Result<number, Unauthorized>>();
+		});
+
+		test("matchTag narrows each handler's error to its tag", () => {
+			const result: Result<number, { _tag: "A"; a: string } | { _tag: "B"; b: number }> = ok(1);
+			const matched = result.matchTag({
+				ok: (value) => value,
+				A: (e) => {
+					expectTypeOf(e).toEqualTypeOf<{ _tag: "A"; a: string }>();
+					return e.a.length;
+				},
+				B: (e) => e.b,
+			});
+			expectTypeOf(matched).toEqualTypeOf<number>();
+		});
+
+		test("matchTag requires a handler for every tag", () => {
+			const result: Result<number, { _tag: "A" } | { _tag: "B" }> = ok(1);
+			// @ts-expect-error - missing the handler for "B"
+			result.matchTag({ ok: () => 0, A: () => 1 });
+		});
+
 		test("chained operations preserve types", () => {
 			const result = ok<number, "initial">(42)
 				.map((x) => x.toString())
@@ -785,6 +1481,59 @@ describe("Result", () => {
 			const result = Result.all(results);
 			expectTypeOf(result).toEqualTypeOf<Result<number[], string>>();
 		});
+
+		test("any infers union of Ok types and tuple of Err types", () => {
+			const result = Result.any([ok<number, "a">(1), ok<string, "b">("hi")]);
+			expectTypeOf(result).toEqualTypeOf<Result<number | string, readonly ["a", "b"]>>();
+		});
+
+		test("any infers array type for homogeneous array", () => {
+			const results: Result<number, string>[] = [ok(1), ok(2)];
+			const result = Result.any(results);
+			expectTypeOf(result).toEqualTypeOf<Result<number, string[]>>();
+		});
+
+		test("partition infers unions of Ok and Err types", () => {
+			const partitioned = Result.partition([ok<number, "a">(1), ok<string, "b">("hi")]);
+			expectTypeOf(partitioned.oks).toEqualTypeOf<{ index: number; value: number | string }[]>();
+			expectTypeOf(partitioned.errs).toEqualTypeOf<{ index: number; error: "a" | "b" }[]>();
+		});
+
+		test("allFromObject infers keyed Ok type and union of Err types", () => {
+			const result = Result.allFromObject({
+				user: ok<{ name: string }, "userErr">({ name: "Alice" }),
+				prefs: ok<{ theme: string }, "prefsErr">({ theme: "dark" }),
+			});
+			expectTypeOf(result).toEqualTypeOf<
+				Result<{ user: { name: string }; prefs: { theme: string } }, "userErr" | "prefsErr">
+			>();
+		});
+
+		test("allErrors infers tuple Ok type and array of Err union", () => {
+			const result = Result.allErrors([ok<number, "a">(1), ok<string, "b">("hi")]);
+			if (result.isOk()) {
+				expectTypeOf(result.value[0]).toBeNumber();
+				expectTypeOf(result.value[1]).toBeString();
+			} else {
+				expectTypeOf(result.error).toEqualTypeOf<("a" | "b")[]>();
+			}
+		});
+
+		test("allErrors infers array type for homogeneous array", () => {
+			const results: Result<number, string>[] = [ok(1), ok(2)];
+			const result = Result.allErrors(results);
+			expectTypeOf(result).toEqualTypeOf<Result<number[], string[]>>();
+		});
+
+		test("allErrorsFromObject infers keyed Ok and Err types", () => {
+			const result = Result.allErrorsFromObject({
+				name: ok<string, "badName">("Alice"),
+				age: ok<number, "badAge">(30),
+			});
+			expectTypeOf(result).toEqualTypeOf<
+				Result<{ name: string; age: number }, { name?: "badName"; age?: "badAge" }>
+			>();
+		});
 	});
 
 	describe("all", () => {
@@ -826,4 +1575,102 @@ describe("Result", () => {
 			expect(result.unwrap()).toEqual([1, 2, 3]);
 		});
 	});
+
+	describe("any", () => {
+		test("returns the first Ok", () => {
+			const first = ok(2);
+			const result = Result.any([err("a"), first, ok(3)]);
+			expect(result).toBe(first);
+		});
+
+		test("returns Err with every error when all are Err", () => {
+			const result = Result.any([err("a"), err("b"), err("c")]);
+			expect(result.unwrapErr()).toEqual(["a", "b", "c"]);
+		});
+
+		test("returns Err with empty array for empty input", () => {
+			const result = Result.any([]);
+			expect(result.unwrapErr()).toEqual([]);
+		});
+	});
+
+	describe("partition", () => {
+		test("splits Ok and Err values keeping their indices", () => {
+			const { oks, errs } = Result.partition([ok(1), err("bad"), ok(3), err("worse")]);
+			expect(oks).toEqual([
+				{ index: 0, value: 1 },
+				{ index: 2, value: 3 },
+			]);
+			expect(errs).toEqual([
+				{ index: 1, error: "bad" },
+				{ index: 3, error: "worse" },
+			]);
+		});
+
+		test("returns empty arrays for empty input", () => {
+			expect(Result.partition([])).toEqual({ oks: [], errs: [] });
+		});
+	});
+
+	describe("allFromObject", () => {
+		test("returns Ok with object of values when all are Ok", () => {
+			const result = Result.allFromObject({ a: ok(1), b: ok("hello"), c: ok(true) });
+			expect(result.unwrap()).toEqual({ a: 1, b: "hello", c: true });
+		});
+
+		test("returns the first Err encountered", () => {
+			const e = err("first");
+			const result = Result.allFromObject({ a: ok(1), b: e, c: err("second") });
+			expect(result).toBe(e);
+		});
+
+		test("returns Ok with empty object for empty input", () => {
+			const result = Result.allFromObject({});
+			expect(result.unwrap()).toEqual({});
+		});
+	});
+
+	describe("allErrors", () => {
+		test("returns Ok with tuple of values when all are Ok", () => {
+			const result = Result.allErrors([ok(1), ok("hello"), ok(true)]);
+			expect(result.unwrap()).toEqual([1, "hello", true]);
+		});
+
+		test("collects every Err in input order", () => {
+			const result = Result.allErrors([err("first"), ok(2), err("second")]);
+			expect(result.unwrapErr()).toEqual(["first", "second"]);
+		});
+
+		test("returns Ok with empty array for empty input", () => {
+			const result = Result.allErrors([]);
+			expect(result.unwrap()).toEqual([]);
+		});
+
+		test("works with homogeneous array input", () => {
+			const results: Result<number, string>[] = [ok(1), err("bad"), ok(3)];
+			const result = Result.allErrors(results);
+			expect(result.unwrapErr()).toEqual(["bad"]);
+		});
+	});
+
+	describe("allErrorsFromObject", () => {
+		test("returns Ok with object of values when all are Ok", () => {
+			const result = Result.allErrorsFromObject({ name: ok("Alice"), age: ok(30) });
+			expect(result.unwrap()).toEqual({ name: "Alice", age: 30 });
+		});
+
+		test("collects every Err keyed by field name", () => {
+			const result = Result.allErrorsFromObject({
+				name: err("required"),
+				age: ok(30),
+				email: err("invalid"),
+			});
+			expect(result.unwrapErr()).toEqual({ name: "required", email: "invalid" });
+		});
+
+		test("returns Ok with empty object for empty input", () => {
+			const result = Result.allErrorsFromObject({});
+			expect(result.unwrap()).toEqual({});
+		});
+	});
 });
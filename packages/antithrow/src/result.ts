@@ -1,6 +1,33 @@
+import { brandOf, resultBrand } from "./brand.js";
+import type { CatchFilter, CatchGuard, CatchHandler } from "./catch.js";
+import { toError } from "./catch.js";
 import type { SyncChainGenerator } from "./chain.js";
+import { ContextError } from "./context.js";
+import { display, inspectCustom } from "./display.js";
+import type { ResultJSON } from "./json.js";
+import { ResultJSONError, revive, serialize } from "./json.js";
+import { Matcher } from "./match.js";
+import type { Option } from "./option.js";
+import { none, some } from "./option.js";
 import { ResultAsync } from "./result-async.js";
-import type { ErrUnion, InferErr, InferOk, OkTuple } from "./types.js";
+import type {
+	ErrRecord,
+	ErrRecordUnion,
+	ErrTuple,
+	ErrUnion,
+	InferErr,
+	InferOk,
+	OkRecord,
+	OkTuple,
+	OkUnion,
+	Partitioned,
+	ResultFunction,
+	Tag,
+	TagHandlers,
+	Throwable,
+	WithTag,
+} from "./types.js";
+import { UnwrapError } from "./unwrap-error.js";
 
 interface ResultMethods<T, E> {
 	/**
@@ -77,7 +104,8 @@ interface ResultMethods<T, E> {
 	isErrAnd(fn: (error: E) => boolean): boolean;
 
 	/**
-	 * Returns the contained `Ok` value. Throws if the result is `Err`.
+	 * Returns the contained `Ok` value. Throws an {@link UnwrapError} whose `cause` is the error
+	 * if the result is `Err`.
 	 *
 	 * @example
 	 * ```ts
@@ -89,7 +117,8 @@ interface ResultMethods<T, E> {
 	 */
 	unwrap(): T;
 	/**
-	 * Returns the contained `Err` value. Throws if the result is `Ok`.
+	 * Returns the contained `Err` value. Throws an {@link UnwrapError} holding the value if the
+	 * result is `Ok`.
 	 *
 	 * @example
 	 * ```ts
@@ -101,7 +130,8 @@ interface ResultMethods<T, E> {
 	 */
 	unwrapErr(): E;
 	/**
-	 * Returns the contained `Ok` value. Throws with the provided message if the result is `Err`.
+	 * Returns the contained `Ok` value. Throws an {@link UnwrapError} with the provided message,
+	 * whose `cause` is the error, if the result is `Err`.
 	 *
 	 * @example
 	 * ```ts
@@ -115,7 +145,8 @@ interface ResultMethods<T, E> {
 	 */
 	expect(message: string): T;
 	/**
-	 * Returns the contained `Err` value. Throws with the provided message if the result is `Ok`.
+	 * Returns the contained `Err` value. Throws an {@link UnwrapError} with the provided message,
+	 * holding the value, if the result is `Ok`.
 	 *
 	 * @example
 	 * ```ts
@@ -185,6 +216,35 @@ interface ResultMethods<T, E> {
 	 * @returns The result of the transformation.
 	 */
 	mapErr<F>(fn: (error: E) => F): Result<T, F>;
+	/**
+	 * Wraps the `Err` value in a {@link ContextError} describing what was being done, keeping the
+	 * original error as its `cause`. Use {@link formatErrorChain} to render the chain for logs.
+	 *
+	 * @example
+	 * ```ts
+	 * const config = parseConfig(raw).context("loading user config");
+	 * // Result<Config, ContextError<ParseError>>
+	 * ```
+	 *
+	 * @param context - What was being done when the error occurred.
+	 *
+	 * @returns The original `Ok`, or an `Err` containing a `ContextError`.
+	 */
+	context(context: string): Result<T, ContextError<E>>;
+	/**
+	 * Like {@link context}, but computes the description from the error, only when there is one.
+	 *
+	 * @example
+	 * ```ts
+	 * const config = readConfig(path).withContext((e) => `loading ${path} (${e.code})`);
+	 * // Result<Config, ContextError<ReadError>>
+	 * ```
+	 *
+	 * @param fn - Computes what was being done when the error occurred.
+	 *
+	 * @returns The original `Ok`, or an `Err` containing a `ContextError`.
+	 */
+	withContext(fn: (error: E) => string): Result<T, ContextError<E>>;
 	/**
 	 * Transforms the `Ok` value using the provided function, or returns the default value if `Err`.
 	 *
@@ -277,6 +337,58 @@ interface ResultMethods<T, E> {
 	 * @returns The result of the function call, or the original `Ok`.
 	 */
 	orElse<F>(fn: (error: E) => Result<T, F>): Result<T, F>;
+	/**
+	 * Recovers from the errors with the given `_tag`, propagating every other error. The tag is
+	 * removed from the error type, so later steps only see the errors that remain.
+	 *
+	 * @example
+	 * ```ts
+	 * declare const user: Result<User, NotFound | Unauthorized>;
+	 * const withGuest = user.catchTag("NotFound", () => ok(guest));
+	 * // Result<User, Unauthorized>
+	 * ```
+	 *
+	 * @template K - The tag to recover from.
+	 * @template F - The error type of the recovery result.
+	 *
+	 * @param tag - The `_tag` of the errors to recover from.
+	 * @param fn - The function to call with a matching `Err` value.
+	 *
+	 * @returns The result of the function call, or the original result.
+	 */
+	catchTag<K extends Tag<E>, F>(
+		tag: K,
+		fn: (error: Extract<E, WithTag<K>>) => Result<T, F>,
+	): Result<T, Exclude<E, WithTag<K>> | F>;
+	/**
+	 * Recovers from the errors that are instances of the given class, propagating every other
+	 * error. The class is removed from the error type, so later steps only see the errors that
+	 * remain.
+	 *
+	 * The error type is narrowed structurally: classes without distinguishing fields (such as
+	 * the built-in `Error` subclasses) are indistinguishable to TypeScript and all get removed.
+	 *
+	 * @example
+	 * ```ts
+	 * class ValidationError extends TaggedError("ValidationError") {}
+	 *
+	 * declare const config: Result<Config, SyntaxError | ValidationError>;
+	 * const withDefaults = config.catchIf(ValidationError, () => ok(defaults));
+	 * // Result<Config, SyntaxError>
+	 * ```
+	 *
+	 * @template C - The type of the errors to recover from.
+	 * @template F - The error type of the recovery result.
+	 *
+	 * @param ctor - The class of the errors to recover from, checked with `instanceof`.
+	 * @param fn - The function to call with a matching `Err` value.
+	 *
+	 * @returns The result of the function call, or the original result.
+	 */
+	catchIf<C, F>(
+		ctor: abstract new (...args: never[]) => C,
+		fn: (error: C) => Result<T, F>,
+	): Result<T, Exclude<E, C> | F>;
 
 	/**
 	 * Pattern matches on the result, calling the appropriate handler and returning its value.
@@ -295,6 +407,32 @@ interface ResultMethods<T, E> {
 	 */
 	match<U>(handlers: { ok: (value: T) => U; err: (error: E) => U }): U;
 
+	/**
+	 * Pattern matches on the result like {@link match}, with one handler per error `_tag`
+	 * instead of a single `err` handler. The handlers must cover every tag in `E`, so adding a
+	 * new error to the union is a compile error until it is handled.
+	 *
+	 * @example
+	 * ```ts
+	 * class NotFound extends TaggedError("NotFound")<{ resource: string }> {}
+	 * class Unauthorized extends TaggedError("Unauthorized") {}
+	 *
+	 * declare const result: Result<User, NotFound | Unauthorized>;
+	 * const status = result.matchTag({
+	 *   ok: () => 200,
+	 *   NotFound: (e) => (e.resource === "user" ? 404 : 410),
+	 *   Unauthorized: () => 401,
+	 * });
+	 * ```
+	 *
+	 * @template U - The type returned by every handler.
+	 *
+	 * @param handlers - The `ok` handler, and a handler for each error tag.
+	 *
+	 * @returns The result of the handler call.
+	 */
+	matchTag<U>(handlers: { ok: (value: T) => U } & TagHandlers<E, U>): U;
+
 	/**
 	 * Calls the provided function with the `Ok` value for side effects, returning the original result.
 	 *
@@ -323,6 +461,41 @@ interface ResultMethods<T, E> {
 	 * @returns The original result, unchanged.
 	 */
 	inspectErr(fn: (error: E) => void): Result<T, E>;
+	/**
+	 * Calls the provided function with the `Ok` value for a check or side effect that can fail,
+	 * such as a validation or an audit log write. Returns its `Err` if it fails, and the original
+	 * result otherwise: unlike `andThen`, its `Ok` value is discarded.
+	 *
+	 * @example
+	 * ```ts
+	 * ok(order).andThrough(checkStock); // ok(order), or err(OutOfStock)
+	 * err("oops").andThrough(checkStock); // err("oops"), without calling checkStock
+	 * ```
+	 *
+	 * @template F - The type of the function's error.
+	 *
+	 * @param fn - The function to call with the `Ok` value.
+	 *
+	 * @returns The function's `Err`, or the original result.
+	 */
+	andThrough<F>(fn: (value: T) => Result<unknown, F>): Result<T, E | F>;
+	/**
+	 * Calls the provided function with the `Err` value for a side effect that can fail, such as
+	 * reporting the error. Returns its `Err` if it fails, and the original result otherwise.
+	 *
+	 * @example
+	 * ```ts
+	 * err(error).orThrough(reportError); // err(error), or err(ReportError)
+	 * ok(42).orThrough(reportError); // ok(42), without calling reportError
+	 * ```
+	 *
+	 * @template F - The type of the function's error.
+	 *
+	 * @param fn - The function to call with the `Err` value.
+	 *
+	 * @returns The function's `Err`, or the original result.
+	 */
+	orThrough<F>(fn: (error: E) => Result<unknown, F>): Result<T, E | F>;
 
 	/**
 	 * Flattens a nested `Result<Result<U, F>, E>` into `Result<U, E | F>`.
@@ -338,6 +511,47 @@ interface ResultMethods<T, E> {
 	 */
 	flatten<U, F>(this: Result<Result<U, F>, E>): Result<U, E | F>;
 
+	/**
+	 * Converts this `Result` into an `Option` of its `Ok` value, discarding the error.
+	 *
+	 * @example
+	 * ```ts
+	 * ok(42).ok(); // some(42)
+	 * err("oops").ok(); // none()
+	 * ```
+	 *
+	 * @returns `Some` containing the `Ok` value, or `None` if `Err`.
+	 */
+	ok(): Option<T>;
+	/**
+	 * Converts this `Result` into an `Option` of its `Err` value, discarding the success value.
+	 *
+	 * @example
+	 * ```ts
+	 * ok(42).err(); // none()
+	 * err("oops").err(); // some("oops")
+	 * ```
+	 *
+	 * @returns `Some` containing the `Err` value, or `None` if `Ok`.
+	 */
+	err(): Option<E>;
+	/**
+	 * Transposes a `Result` of an `Option` into an `Option` of a `Result`.
+	 *
+	 * `Ok(None)` maps to `None`, `Ok(Some(v))` maps to `Some(Ok(v))`, and `Err(e)` maps to
+	 * `Some(Err(e))`.
+	 *
+	 * @example
+	 * ```ts
+	 * ok(some(42)).transpose(); // some(ok(42))
+	 * ok(none()).transpose(); // none()
+	 * err("oops").transpose(); // some(err("oops"))
+	 * ```
+	 *
+	 * @returns The transposed option.
+	 */
+	transpose<U>(this: Result<Option<U>, E>): Option<Result<U, E>>;
+
 	/**
 	 * Converts this `Result` into a `ResultAsync`.
 	 *
@@ -350,6 +564,40 @@ interface ResultMethods<T, E> {
 	 * @returns A `ResultAsync` containing this result.
 	 */
 	toAsync(): ResultAsync<T, E>;
+
+	/**
+	 * Converts this `Result` into its JSON shape, `{ ok: true, value }` or `{ ok: false, error }`,
+	 * for sending across HTTP, `postMessage` or a queue. Called by `JSON.stringify`.
+	 *
+	 * An `Error` value or error is converted into an object keeping its `name`, `message`,
+	 * `cause` and own fields (such as `_tag`), which {@link Result.fromJSON} revives. Errors
+	 * nested deeper inside the value are left to `JSON.stringify`.
+	 *
+	 * @example
+	 * ```ts
+	 * JSON.stringify(ok(42)); // '{"ok":true,"value":42}'
+	 * JSON.stringify(err(new NotFound({ message: "No such user" })));
+	 * // '{"ok":false,"error":{"$error":true,"_tag":"NotFound","name":"NotFound","message":"No such user"}}'
+	 * ```
+	 *
+	 * @returns The JSON shape of this result.
+	 */
+	toJSON(): ResultJSON<T, E>;
+
+	/**
+	 * Renders this `Result` for debugging, as `Ok(value)` or `Err(error)`. Values are shown the
+	 * way they would be written in code, and errors by their name and fields. `console.log` and
+	 * `util.inspect` in Node and Bun use the same rendering.
+	 *
+	 * @example
+	 * ```ts
+	 * ok(42).toString(); // "Ok(42)"
+	 * err(new NotFound({ resource: "user" })).toString(); // 'Err(NotFound { resource: "user" })'
+	 * ```
+	 *
+	 * @returns The rendered result.
+	 */
+	toString(): string;
 }
 
 /**
@@ -377,6 +625,13 @@ export class Ok<T, E> implements ResultMethods<T, E> {
 		this.value = value;
 	}
 
+	static {
+		// Set on the prototype rather than declared, so the types of different copies of
+		// antithrow stay compatible.
+		Object.defineProperty(Ok.prototype, resultBrand, { value: "ok" });
+		Object.defineProperty(Ok.prototype, inspectCustom, { value: Ok.prototype.toString });
+	}
+
 	// biome-ignore lint/correctness/useYield: Generator returns immediately for Ok values
 	*[Symbol.iterator](): SyncChainGenerator<T, E> {
 		return this.value;
@@ -407,7 +662,7 @@ export class Ok<T, E> implements ResultMethods<T, E> {
 	}
 
 	unwrapErr(): E {
-		throw new Error(`Called unwrapErr on an Ok value: ${String(this.value)}`);
+		throw new UnwrapError(`Called unwrapErr on an Ok value: ${String(this.value)}`, this.value);
 	}
 
 	expect(_message: string): T {
@@ -415,7 +670,7 @@ export class Ok<T, E> implements ResultMethods<T, E> {
 	}
 
 	expectErr(message: string): E {
-		throw new Error(message);
+		throw new UnwrapError(message, this.value);
 	}
 
 	unwrapOr(_defaultValue: T): T {
@@ -435,6 +690,16 @@ export class Ok<T, E> implements ResultMethods<T, E> {
 		return this as unknown as Ok<T, F>;
 	}
 
+	context(_context: string): Result<T, ContextError<E>> {
+		// Cast avoids allocating a new Ok; the error type is phantom here.
+		return this as unknown as Ok<T, ContextError<E>>;
+	}
+
+	withContext(_fn: (error: E) => string): Result<T, ContextError<E>> {
+		// Cast avoids allocating a new Ok; the error type is phantom here.
+		return this as unknown as Ok<T, ContextError<E>>;
+	}
+
 	mapOr<U>(_defaultValue: U, fn: (value: T) => U): U {
 		return fn(this.value);
 	}
@@ -464,10 +729,30 @@ export class Ok<T, E> implements ResultMethods<T, E> {
 		return this as unknown as Ok<T, F>;
 	}
 
+	catchTag<K extends Tag<E>, F>(
+		_tag: K,
+		_fn: (error: Extract<E, WithTag<K>>) => Result<T, F>,
+	): Result<T, Exclude<E, WithTag<K>> | F> {
+		// Cast avoids allocating a new Ok; the error type is phantom here.
+		return this as unknown as Ok<T, Exclude<E, WithTag<K>> | F>;
+	}
+
+	catchIf<C, F>(
+		_ctor: abstract new (...args: never[]) => C,
+		_fn: (error: C) => Result<T, F>,
+	): Result<T, Exclude<E, C> | F> {
+		// Cast avoids allocating a new Ok; the error type is phantom here.
+		return this as unknown as Ok<T, Exclude<E, C> | F>;
+	}
+
 	match<U>(handlers: { ok: (value: T) => U; err: (error: E) => U }): U {
 		return handlers.ok(this.value);
 	}
 
+	matchTag<U>(handlers: { ok: (value: T) => U } & TagHandlers<E, U>): U {
+		return handlers.ok(this.value);
+	}
+
 	inspect(fn: (value: T) => void): Result<T, E> {
 		fn(this.value);
 		return this;
@@ -477,13 +762,43 @@ export class Ok<T, E> implements ResultMethods<T, E> {
 		return this;
 	}
 
+	andThrough<F>(fn: (value: T) => Result<unknown, F>): Result<T, E | F> {
+		const result = fn(this.value);
+		// Cast avoids allocating a new Err; the value type is phantom here.
+		return result.isErr() ? (result as Err<T, F>) : this;
+	}
+
+	orThrough<F>(_fn: (error: E) => Result<unknown, F>): Result<T, E | F> {
+		return this;
+	}
+
 	flatten<U, F>(this: Ok<Result<U, F>, E>): Result<U, E | F> {
 		return this.value;
 	}
 
+	ok(): Option<T> {
+		return some(this.value);
+	}
+
+	err(): Option<E> {
+		return none();
+	}
+
+	transpose<U>(this: Ok<Option<U>, E>): Option<Result<U, E>> {
+		return this.value.map((value) => new Ok(value));
+	}
+
 	toAsync(): ResultAsync<T, E> {
 		return ResultAsync.fromPromise(Promise.resolve(this));
 	}
+
+	toJSON(): ResultJSON<T, E> {
+		return { ok: true, value: serialize(this.value) };
+	}
+
+	toString(): string {
+		return display(this);
+	}
 }
 
 /**
@@ -511,6 +826,12 @@ export class Err<T, E> implements ResultMethods<T, E> {
 		this.error = error;
 	}
 
+	static {
+		// See `Ok` for why these are set on the prototype.
+		Object.defineProperty(Err.prototype, resultBrand, { value: "err" });
+		Object.defineProperty(Err.prototype, inspectCustom, { value: Err.prototype.toString });
+	}
+
 	*[Symbol.iterator](): SyncChainGenerator<T, E> {
 		// `this` is always an Err, so we can cast it to Err<never, E>
 		yield this as unknown as Err<never, E>;
@@ -538,7 +859,9 @@ export class Err<T, E> implements ResultMethods<T, E> {
 	}
 
 	unwrap(): T {
-		throw new Error(`Called unwrap on an Err value: ${String(this.error)}`);
+		throw new UnwrapError(`Called unwrap on an Err value: ${String(this.error)}`, this.error, {
+			cause: this.error,
+		});
 	}
 
 	unwrapErr(): E {
@@ -546,7 +869,7 @@ export class Err<T, E> implements ResultMethods<T, E> {
 	}
 
 	expect(message: string): T {
-		throw new Error(message);
+		throw new UnwrapError(message, this.error, { cause: this.error });
 	}
 
 	expectErr(_message: string): E {
@@ -570,6 +893,14 @@ export class Err<T, E> implements ResultMethods<T, E> {
 		return new Err(fn(this.error));
 	}
 
+	context(context: string): Result<T, ContextError<E>> {
+		return new Err(new ContextError(context, this.error));
+	}
+
+	withContext(fn: (error: E) => string): Result<T, ContextError<E>> {
+		return new Err(new ContextError(fn(this.error), this.error));
+	}
+
 	mapOr<U>(defaultValue: U, _fn: (value: T) => U): U {
 		return defaultValue;
 	}
@@ -599,10 +930,41 @@ export class Err<T, E> implements ResultMethods<T, E> {
 		return fn(this.error);
 	}
 
+	catchTag<K extends Tag<E>, F>(
+		tag: K,
+		fn: (error: Extract<E, WithTag<K>>) => Result<T, F>,
+	): Result<T, Exclude<E, WithTag<K>> | F> {
+		if ((this.error as Partial<WithTag<string>>)._tag === tag) {
+			return fn(this.error as Extract<E, WithTag<K>>);
+		}
+
+		// Cast avoids allocating a new Err; the error doesn't have the tag, so it isn't excluded.
+		return this as unknown as Err<T, Exclude<E, WithTag<K>>>;
+	}
+
+	catchIf<C, F>(
+		ctor: abstract new (...args: never[]) => C,
+		fn: (error: C) => Result<T, F>,
+	): Result<T, Exclude<E, C> | F> {
+		if (this.error instanceof ctor) {
+			return fn(this.error);
+		}
+
+		// Cast avoids allocating a new Err; the error isn't a `C`, so it isn't excluded.
+		return this as unknown as Err<T, Exclude<E, C>>;
+	}
+
 	match<U>(handlers: { ok: (value: T) => U; err: (error: E) => U }): U {
 		return handlers.err(this.error);
 	}
 
+	matchTag<U>(handlers: { ok: (value: T) => U } & TagHandlers<E, U>): U {
+		const { _tag } = this.error as { _tag: string };
+		const handler = (handlers as unknown as Record<string, (error: E) => U>)[_tag];
+		// Safe: `TagHandlers` requires a handler for every tag of `E`.
+		return (handler as (error: E) => U)(this.error);
+	}
+
 	inspect(_fn: (value: T) => void): Result<T, E> {
 		return this;
 	}
@@ -612,13 +974,44 @@ export class Err<T, E> implements ResultMethods<T, E> {
 		return this;
 	}
 
+	andThrough<F>(_fn: (value: T) => Result<unknown, F>): Result<T, E | F> {
+		return this;
+	}
+
+	orThrough<F>(fn: (error: E) => Result<unknown, F>): Result<T, E | F> {
+		const result = fn(this.error);
+		// Cast avoids allocating a new Err; the value type is phantom here.
+		return result.isErr() ? (result as Err<T, F>) : this;
+	}
+
 	flatten<U, F>(this: Err<Result<U, F>, E>): Result<U, E | F> {
 		return this as unknown as Err<U, E>;
 	}
 
+	ok(): Option<T> {
+		return none();
+	}
+
+	err(): Option<E> {
+		return some(this.error);
+	}
+
+	transpose<U>(this: Err<Option<U>, E>): Option<Result<U, E>> {
+		// Cast avoids allocating a new Err; the value type U is phantom here.
+		return some(this as unknown as Err<U, E>);
+	}
+
 	toAsync(): ResultAsync<T, E> {
 		return ResultAsync.fromPromise(Promise.resolve(this));
 	}
+
+	toJSON(): ResultJSON<T, E> {
+		return { ok: false, error: serialize(this.error) };
+	}
+
+	toString(): string {
+		return display(this);
+	}
 }
 
 /**
@@ -682,6 +1075,19 @@ export function err<T = never, E = unknown>(error: E): Err<T, E> {
 	return new Err(error);
 }
 
+/**
+ * Validators for {@link Result.fromJSON}.
+ *
+ * @template T - The type of the success value.
+ * @template E - The type of the error value.
+ */
+interface FromJSONOptions<T, E> {
+	/** Checks the `Ok` value. Defaults to accepting any value. */
+	value?: (value: unknown) => Result<T, unknown>;
+	/** Checks the error value, after serialized errors are revived. Defaults to accepting any value. */
+	error?: (error: unknown) => Result<E, unknown>;
+}
+
 interface ResultNamespace {
 	/**
 	 * Combines multiple `Result` values into a single `Result` containing a tuple of all
@@ -707,12 +1113,139 @@ interface ResultNamespace {
 	): Result<OkTuple<T>, ErrUnion<T>>;
 	all<T, E>(results: readonly Result<T, E>[]): Result<T[], E>;
 
+	/**
+	 * Returns the first `Ok` among multiple `Result` values, or an `Err` containing a tuple of
+	 * every error if all of them failed. Similar to `Promise.any`.
+	 *
+	 * @example
+	 * ```ts
+	 * const value = Result.any([readCache(key), readReplica(key), readPrimary(key)]);
+	 *
+	 * Result.any([err("a"), ok(2), ok(3)]).unwrap(); // 2
+	 * Result.any([err("a"), err("b")]).unwrapErr(); // ["a", "b"]
+	 * ```
+	 *
+	 * @template T - A readonly tuple or array of `Result` values.
+	 *
+	 * @param results - The `Result` values to try.
+	 *
+	 * @returns The first `Ok`, or an `Err` containing every error in input order.
+	 */
+	any<const T extends readonly Result<unknown, unknown>[]>(
+		results: T,
+	): Result<OkUnion<T>, ErrTuple<T>>;
+	any<T, E>(results: readonly Result<T, E>[]): Result<T, E[]>;
+
+	/**
+	 * Combines an object of `Result` values into a single `Result` containing an object of all
+	 * `Ok` values, or the first `Err` encountered. The object-shaped counterpart of
+	 * {@link Result.all}.
+	 *
+	 * @example
+	 * ```ts
+	 * const combined = Result.allFromObject({ user: getUser(), prefs: getPrefs() });
+	 * // Result<{ user: User; prefs: Prefs }, UserError | PrefsError>
+	 *
+	 * Result.allFromObject({ a: ok(1), b: ok("hello") }).unwrap(); // { a: 1, b: "hello" }
+	 * Result.allFromObject({ a: ok(1), b: err("bad") }).unwrapErr(); // "bad"
+	 * ```
+	 *
+	 * @template T - An object of `Result` values.
+	 *
+	 * @param results - The `Result` values to combine.
+	 *
+	 * @returns A `Result` containing an object of all `Ok` values, or the first `Err`.
+	 */
+	allFromObject<T extends Readonly<Record<string, Result<unknown, unknown>>>>(
+		results: T,
+	): Result<OkRecord<T>, ErrRecordUnion<T>>;
+
+	/**
+	 * Combines multiple `Result` values into a single `Result` containing a tuple of all
+	 * `Ok` values, or an `Err` containing every error encountered. Unlike {@link Result.all},
+	 * this does not stop at the first `Err`, which makes it suitable for validation.
+	 *
+	 * @example
+	 * ```ts
+	 * const combined = Result.allErrors([ok(1), ok("hello")]);
+	 * combined.unwrap(); // [1, "hello"]
+	 *
+	 * const failed = Result.allErrors([ok(1), err("bad"), err("worse")]);
+	 * failed.unwrapErr(); // ["bad", "worse"]
+	 * ```
+	 *
+	 * @template T - A readonly tuple or array of `Result` values.
+	 *
+	 * @param results - The `Result` values to combine.
+	 *
+	 * @returns A `Result` containing a tuple of all `Ok` values, or an array of every `Err` value
+	 * in input order.
+	 */
+	allErrors<const T extends readonly Result<unknown, unknown>[]>(
+		results: T,
+	): Result<OkTuple<T>, ErrUnion<T>[]>;
+	allErrors<T, E>(results: readonly Result<T, E>[]): Result<T[], E[]>;
+
+	/**
+	 * Combines an object of `Result` values into a single `Result` containing an object of all
+	 * `Ok` values, or an `Err` containing the error of every failed field, keyed by field name.
+	 *
+	 * @example
+	 * ```ts
+	 * const form = Result.allErrorsFromObject({
+	 *   name: validateName(input.name),
+	 *   age: validateAge(input.age),
+	 * });
+	 * // Result<{ name: string; age: number }, { name?: NameError; age?: AgeError }>
+	 *
+	 * Result.allErrorsFromObject({ name: ok("Alice"), age: err("too young") }).unwrapErr();
+	 * // { age: "too young" }
+	 * ```
+	 *
+	 * @template T - An object of `Result` values.
+	 *
+	 * @param results - The `Result` values to combine.
+	 *
+	 * @returns A `Result` containing an object of all `Ok` values, or an object of every `Err`
+	 * value keyed by field name.
+	 */
+	allErrorsFromObject<T extends Readonly<Record<string, Result<unknown, unknown>>>>(
+		results: T,
+	): Result<OkRecord<T>, ErrRecord<T>>;
+
+	/**
+	 * Splits multiple `Result` values into their `Ok` values and `Err` values, keeping the
+	 * index of each entry in the original input.
+	 *
+	 * Like `Result.all`, this only takes `Result`s. For mixed `Result` / `ResultAsync` inputs,
+	 * use {@link ResultAsync.partition}, which settles them first.
+	 *
+	 * @example
+	 * ```ts
+	 * const { oks, errs } = Result.partition([ok(1), err("bad"), ok(3)]);
+	 * oks; // [{ index: 0, value: 1 }, { index: 2, value: 3 }]
+	 * errs; // [{ index: 1, error: "bad" }]
+	 * ```
+	 *
+	 * @template T - A readonly tuple or array of `Result` values.
+	 *
+	 * @param results - The `Result` values to partition.
+	 *
+	 * @returns An object containing every `Ok` value and every `Err` value with their indices.
+	 */
+	partition<const T extends readonly Result<unknown, unknown>[]>(
+		results: T,
+	): Partitioned<OkUnion<T>, ErrUnion<T>>;
+
 	/**
 	 * Executes a function and wraps the result in a `Result`. If the function throws,
 	 * the error is caught and wrapped in an `Err`.
 	 * Use this to wrap throwable operations before passing them into `Result`
 	 * callbacks or `chain(...)` generators.
 	 *
+	 * The thrown value is not checked against `E`. Pass a `mapError` function or `catchIf`
+	 * options (see the other overloads) to enforce the error type at runtime.
+	 *
 	 * @example
 	 * ```ts
 	 * const result = Result.try(() => JSON.parse('{"a": 1}')); // ok({ a: 1 })
@@ -727,6 +1260,216 @@ interface ResultNamespace {
 	 * @returns An `Ok` containing the function's return value, or an `Err` containing the thrown error.
 	 */
 	try<T, E = unknown>(fn: () => T): Result<T, E>;
+	/**
+	 * Executes a function and wraps the result in a `Result`. If the function throws,
+	 * `mapError` converts the thrown value into the error, so `E` is checked at runtime
+	 * instead of being assumed.
+	 *
+	 * @example
+	 * ```ts
+	 * const config = Result.try(
+	 *   () => JSON.parse(raw),
+	 *   (caught) => new ConfigError("Invalid JSON", { cause: caught }),
+	 * );
+	 * // Result<any, ConfigError>
+	 * ```
+	 *
+	 * @template T - The return type of the function.
+	 * @template E - The type of the error value.
+	 *
+	 * @param fn - The function to execute.
+	 * @param mapError - Converts the thrown value into the error value.
+	 *
+	 * @returns An `Ok` containing the function's return value, or an `Err` containing the mapped error.
+	 */
+	try<T, E>(fn: () => T, mapError: (caught: unknown) => E): Result<T, E>;
+	/**
+	 * Executes a function and wraps the result in a `Result`, catching only the thrown values
+	 * accepted by the `catchIf` type guard. Anything else is rethrown as a defect.
+	 *
+	 * @example
+	 * ```ts
+	 * const data = Result.try(() => JSON.parse(raw), {
+	 *   catchIf: (caught) => caught instanceof SyntaxError,
+	 * });
+	 * // Result<any, SyntaxError>
+	 * ```
+	 *
+	 * @template T - The return type of the function.
+	 * @template C - The type of the thrown values that are caught.
+	 * @template E - The type of the error value (defaults to `C`).
+	 *
+	 * @param fn - The function to execute.
+	 * @param options - The guard for expected errors, and an optional mapper.
+	 *
+	 * @returns An `Ok` containing the function's return value, or an `Err` containing the caught error.
+	 */
+	try<T, C, E = C>(fn: () => T, options: CatchGuard<C, E>): Result<T, E>;
+	/**
+	 * Executes a function and wraps the result in a `Result`, catching only the thrown values
+	 * accepted by the `catchIf` predicate. Anything else is rethrown as a defect.
+	 *
+	 * @example
+	 * ```ts
+	 * const data = Result.try(() => readConfig(), {
+	 *   catchIf: (caught) => isNodeError(caught) && caught.code === "ENOENT",
+	 *   mapError: () => new MissingConfigError(),
+	 * });
+	 * // Result<Config, MissingConfigError>
+	 * ```
+	 *
+	 * @template T - The return type of the function.
+	 * @template E - The type of the error value.
+	 *
+	 * @param fn - The function to execute.
+	 * @param options - The predicate for expected errors, and the mapper.
+	 *
+	 * @returns An `Ok` containing the function's return value, or an `Err` containing the mapped error.
+	 */
+	try<T, E>(fn: () => T, options: CatchFilter<E>): Result<T, E>;
+
+	/**
+	 * Wraps a throwing function into one that returns a `Result`. The wrapper takes the same
+	 * parameters (keeping up to four overloads) and calls `fn` with them, catching anything
+	 * it throws like {@link Result.try}.
+	 *
+	 * @example
+	 * ```ts
+	 * const parse = Result.fromThrowable(JSON.parse, (caught) => new ParseError({ cause: caught }));
+	 * parse('{"a": 1}'); // ok({ a: 1 })
+	 * parse("invalid"); // err(ParseError)
+	 * ```
+	 *
+	 * @template F - The type of the function to wrap.
+	 * @template E - The error type (defaults to `unknown`).
+	 *
+	 * @param fn - The function to wrap.
+	 * @param mapError - Converts a thrown value into the error value. Without it, the thrown
+	 * value is used as is.
+	 *
+	 * @returns A function with the same parameters as `fn` that returns a `Result`.
+	 */
+	fromThrowable<F extends Throwable, E = unknown>(
+		fn: F,
+		mapError?: (caught: unknown) => E,
+	): ResultFunction<F, E>;
+
+	/**
+	 * Checks whether a value is an `Ok` or an `Err`. Unlike `instanceof`, this recognizes results
+	 * created by another copy of antithrow, such as a duplicated install or a worker bundle.
+	 *
+	 * @example
+	 * ```ts
+	 * Result.isResult(ok(1)); // true
+	 * Result.isResult({ value: 1 }); // false
+	 * ```
+	 *
+	 * @param value - The value to check.
+	 *
+	 * @returns `true` if the value is a `Result`.
+	 */
+	isResult(value: unknown): value is Result<unknown, unknown>;
+
+	/**
+	 * Checks whether a value is an `Ok`, including one created by another copy of antithrow.
+	 *
+	 * @example
+	 * ```ts
+	 * Result.isOk(ok(1)); // true
+	 * Result.isOk(err("oops")); // false
+	 * ```
+	 *
+	 * @template T - The type of the success value.
+	 * @template E - The type of the error value.
+	 *
+	 * @param value - The value to check.
+	 *
+	 * @returns `true` if the value is an `Ok`.
+	 */
+	isOk<T, E>(value: Result<T, E>): value is Ok<T, E>;
+	isOk(value: unknown): value is Ok<unknown, unknown>;
+
+	/**
+	 * Checks whether a value is an `Err`, including one created by another copy of antithrow.
+	 *
+	 * @example
+	 * ```ts
+	 * Result.isErr(err("oops")); // true
+	 * Result.isErr(ok(1)); // false
+	 * ```
+	 *
+	 * @template T - The type of the success value.
+	 * @template E - The type of the error value.
+	 *
+	 * @param value - The value to check.
+	 *
+	 * @returns `true` if the value is an `Err`.
+	 */
+	isErr<T, E>(value: Result<T, E>): value is Err<T, E>;
+	isErr(value: unknown): value is Err<unknown, unknown>;
+
+	/**
+	 * Starts a fluent, exhaustive match on a `Result` or `ResultAsync`. Handle the `Ok` value with
+	 * `ok` and the errors with `err`, by structural pattern or by predicate, then run the match
+	 * with `exhaustive`, which only compiles once every error variant is handled, or with
+	 * `otherwise`.
+	 *
+	 * @example
+	 * ```ts
+	 * const response = Result.match(result)
+	 *   .ok((user) => json(user))
+	 *   .err({ type: "not_found" }, (error) => notFound(error.resource))
+	 *   .err({ type: "unauthorized" }, () => unauthorized())
+	 *   .err(isNetworkError, () => unavailable())
+	 *   .exhaustive();
+	 *
+	 * const status = await Result.match(fetchUser(id))
+	 *   .ok(() => 200)
+	 *   .otherwise(() => 500); // Promise<number>
+	 * ```
+	 *
+	 * @template T - The type of the success value.
+	 * @template E - The type of the error value.
+	 *
+	 * @param result - The result to match.
+	 *
+	 * @returns A `Matcher` with nothing handled yet.
+	 */
+	match<T, E>(result: ResultAsync<T, E>): Matcher<T, never, false, E, true>;
+	match<T, E>(result: Result<T, E>): Matcher<T, never, false, E, false>;
+
+	/**
+	 * Revives a `Result` from its JSON shape, as produced by `toJSON`. Serialized errors are
+	 * turned back into `Error`s with the same `name`, `message`, `cause` and fields, so
+	 * `matchTag` and `catchTag` work on them. They are plain `Error`s, though, so `instanceof`
+	 * checks against the original classes fail.
+	 *
+	 * The data is checked to be a serialized result. Pass validators, such as `validateSync` from
+	 * `@antithrow/standard-schema`, to check the value and error too.
+	 *
+	 * @example
+	 * ```ts
+	 * const result = Result.fromJSON(await response.json(), {
+	 *   value: (value) => validateSync(UserSchema, value),
+	 * });
+	 * // Result<Result<User, unknown>, ResultJSONError>
+	 *
+	 * Result.fromJSON({ ok: true, value: 42 }); // ok(ok(42))
+	 * Result.fromJSON({ status: "ok" }); // err(ResultJSONError)
+	 * ```
+	 *
+	 * @template T - The type of the success value (defaults to `unknown`).
+	 * @template E - The type of the error value (defaults to `unknown`).
+	 *
+	 * @param data - The parsed JSON data.
+	 * @param options - Validators for the value and error.
+	 *
+	 * @returns An `Ok` containing the revived result, or an `Err` containing a `ResultJSONError`.
+	 */
+	fromJSON<T = unknown, E = unknown>(
+		data: unknown,
+		options?: FromJSONOptions<T, E>,
+	): Result<Result<T, E>, ResultJSONError>;
 }
 
 export const Result: ResultNamespace = {
@@ -742,11 +1485,130 @@ export const Result: ResultNamespace = {
 
 		return ok(values);
 	},
-	try<T, E = unknown>(fn: () => T): Result<T, E> {
+	any(results: readonly Result<unknown, unknown>[]): Result<unknown, unknown[]> {
+		const errors: unknown[] = [];
+		for (const result of results) {
+			if (result.isOk()) {
+				// Cast avoids allocating a new Ok; the error type is phantom here.
+				return result as Ok<unknown, never>;
+			}
+			errors.push(result.error);
+		}
+
+		return err(errors);
+	},
+	allFromObject<T extends Readonly<Record<string, Result<unknown, unknown>>>>(
+		results: T,
+	): Result<OkRecord<T>, ErrRecordUnion<T>> {
+		const keys = Object.keys(results);
+
+		return Result.all(Object.values(results)).map(
+			// Cast is safe: `values` holds one entry per key of `T`, in key order.
+			(values) => Object.fromEntries(keys.map((key, i) => [key, values[i]])) as OkRecord<T>,
+		) as Result<OkRecord<T>, ErrRecordUnion<T>>;
+	},
+	allErrors(results: readonly Result<unknown, unknown>[]): Result<unknown[], unknown[]> {
+		const values: unknown[] = [];
+		const errors: unknown[] = [];
+		for (const result of results) {
+			if (result.isErr()) {
+				errors.push(result.error);
+			} else {
+				values.push(result.value);
+			}
+		}
+
+		return errors.length > 0 ? err(errors) : ok(values);
+	},
+	allErrorsFromObject<T extends Readonly<Record<string, Result<unknown, unknown>>>>(
+		results: T,
+	): Result<OkRecord<T>, ErrRecord<T>> {
+		const values: Record<string, unknown> = {};
+		const errors: Record<string, unknown> = {};
+		let failed = false;
+		for (const [key, result] of Object.entries(results)) {
+			if (result.isErr()) {
+				errors[key] = result.error;
+				failed = true;
+			} else {
+				values[key] = result.value;
+			}
+		}
+
+		// Cast is safe: `values` has every key of `T` whenever no field failed.
+		return (failed ? err(errors) : ok(values)) as Result<OkRecord<T>, ErrRecord<T>>;
+	},
+	partition<const T extends readonly Result<unknown, unknown>[]>(
+		results: T,
+	): Partitioned<OkUnion<T>, ErrUnion<T>> {
+		const partitioned: Partitioned<OkUnion<T>, ErrUnion<T>> = { oks: [], errs: [] };
+		for (const [index, result] of results.entries()) {
+			if (result.isOk()) {
+				partitioned.oks.push({ index, value: result.value as OkUnion<T> });
+			} else {
+				partitioned.errs.push({ index, error: result.error as ErrUnion<T> });
+			}
+		}
+
+		return partitioned;
+	},
+	try<T, E>(fn: () => T, handler?: CatchHandler<E>): Result<T, E> {
 		try {
 			return ok(fn());
-		} catch (error) {
-			return err(error as E);
+		} catch (caught) {
+			return err(toError(caught, handler));
 		}
 	},
+	fromThrowable<F extends Throwable, E>(
+		fn: F,
+		mapError?: (caught: unknown) => E,
+	): ResultFunction<F, E> {
+		return function (this: unknown, ...args: Parameters<F>): Result<unknown, E> {
+			try {
+				return ok(fn.apply(this, args));
+			} catch (caught) {
+				return err(toError(caught, mapError));
+			}
+		} as ResultFunction<F, E>;
+	},
+	isResult(value: unknown): value is Result<unknown, unknown> {
+		const brand = brandOf(value, resultBrand);
+		return brand === "ok" || brand === "err";
+	},
+	isOk(value: unknown): value is Ok<unknown, unknown> {
+		return brandOf(value, resultBrand) === "ok";
+	},
+	isErr(value: unknown): value is Err<unknown, unknown> {
+		return brandOf(value, resultBrand) === "err";
+	},
+	match(
+		result: Result<unknown, unknown> | ResultAsync<unknown, unknown>,
+	): Matcher<unknown, never, false, unknown, boolean> {
+		return new Matcher(result);
+	},
+	fromJSON<T, E>(
+		data: unknown,
+		{
+			value = (value) => ok(value as T),
+			error = (error) => ok(error as E),
+		}: FromJSONOptions<T, E> = {},
+	): Result<Result<T, E>, ResultJSONError> {
+		if (typeof data !== "object" || data === null || !("ok" in data)) {
+			return err(new ResultJSONError("Expected a serialized Result"));
+		}
+
+		if (data.ok === true) {
+			return value(revive((data as { value?: unknown }).value))
+				.map((value): Result<T, E> => ok(value))
+				.mapErr((cause) => new ResultJSONError("Invalid value in serialized Ok", { cause }));
+		}
+
+		if (data.ok === false) {
+			return error(revive((data as { error?: unknown }).error))
+				.map((error): Result<T, E> => err(error))
+				.mapErr((cause) => new ResultJSONError("Invalid error in serialized Err", { cause }));
+		}
+
+		return err(new ResultJSONError("Expected a serialized Result"));
+	},
 };
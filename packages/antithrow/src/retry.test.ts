@@ -0,0 +1,43 @@
+import { describe, expect, test } from "bun:test";
+import { Backoff, RetryError } from "./retry.js";
+
+describe("retry", () => {
+	describe("Backoff.constant", () => {
+		test("returns the same delay for every attempt", () => {
+			const backoff = Backoff.constant(250);
+			expect([1, 2, 3].map(backoff)).toEqual([250, 250, 250]);
+		});
+	});
+
+	describe("Backoff.exponential", () => {
+		test("doubles from 100ms by default", () => {
+			const backoff = Backoff.exponential();
+			expect([1, 2, 3, 4].map(backoff)).toEqual([100, 200, 400, 800]);
+		});
+
+		test("respects initial, factor and max", () => {
+			const backoff = Backoff.exponential({ initial: 10, factor: 3, max: 100 });
+			expect([1, 2, 3, 4].map(backoff)).toEqual([10, 30, 90, 100]);
+		});
+
+		test("applies full jitter using the random source", () => {
+			const backoff = Backoff.exponential({ initial: 100, jitter: true, random: () => 0.5 });
+			expect([1, 2, 3].map(backoff)).toEqual([50, 100, 200]);
+		});
+	});
+
+	describe("RetryError", () => {
+		test("exposes the last error as error and cause", () => {
+			const error = new RetryError([
+				{ attempt: 1, error: "first", delay: 10 },
+				{ attempt: 2, error: "second", delay: 0 },
+			]);
+			expect(error).toBeInstanceOf(Error);
+			expect(error.name).toBe("RetryError");
+			expect(error.message).toBe("Gave up after 2 attempt(s)");
+			expect(error.error).toBe("second");
+			expect(error.cause).toBe("second");
+			expect(error.attempts.map((a) => a.error)).toEqual(["first", "second"]);
+		});
+	});
+});
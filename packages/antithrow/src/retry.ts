@@ -0,0 +1,123 @@
+/**
+ * A record of a single failed attempt made by `ResultAsync.retry`.
+ *
+ * @template E - The type of the error value.
+ */
+export interface RetryAttempt<E> {
+	/** The 1-based number of the attempt. */
+	readonly attempt: number;
+	/** The error the attempt failed with. */
+	readonly error: E;
+	/** The delay in milliseconds waited before the next attempt, or `0` if none was made. */
+	readonly delay: number;
+}
+
+/**
+ * The error produced by `ResultAsync.retry` once it gives up. Holds the error of the last
+ * attempt as `error` (and `cause`), along with the history of every failed attempt.
+ *
+ * @example
+ * ```ts
+ * const result = await ResultAsync.retry(() => fetch(url), { attempts: 3 });
+ * if (result.isErr()) {
+ *   result.error.error; // the last FetchError
+ *   result.error.attempts.length; // 3
+ * }
+ * ```
+ *
+ * @template E - The type of the error value.
+ */
+export class RetryError<E> extends Error {
+	override readonly name = "RetryError";
+	/** The error of the last attempt. */
+	readonly error: E;
+	/** Every failed attempt, in order. */
+	readonly attempts: readonly RetryAttempt<E>[];
+
+	/**
+	 * Creates a new RetryError.
+	 *
+	 * @param attempts - The failed attempts, in order. Must not be empty.
+	 */
+	constructor(attempts: readonly RetryAttempt<E>[]) {
+		const last = attempts[attempts.length - 1] as RetryAttempt<E>;
+		super(`Gave up after ${attempts.length} attempt(s)`, { cause: last.error });
+		this.error = last.error;
+		this.attempts = attempts;
+	}
+}
+
+/**
+ * Computes the delay in milliseconds to wait after the given 1-based attempt fails.
+ */
+export type Backoff = (attempt: number) => number;
+
+interface ExponentialBackoffOptions {
+	/** The delay after the first attempt, in milliseconds. Defaults to `100`. */
+	initial?: number;
+	/** The multiplier applied after each attempt. Defaults to `2`. */
+	factor?: number;
+	/** The upper bound for any single delay, in milliseconds. Defaults to `Infinity`. */
+	max?: number;
+	/**
+	 * Whether to apply "full jitter", picking a random delay between `0` and the computed delay.
+	 * Defaults to `false`.
+	 */
+	jitter?: boolean;
+	/** The random number source used for jitter. Defaults to `Math.random`. */
+	random?: () => number;
+}
+
+interface BackoffNamespace {
+	/**
+	 * Waits the same delay after every attempt.
+	 *
+	 * @example
+	 * ```ts
+	 * ResultAsync.retry(op, { attempts: 3, backoff: Backoff.constant(500) });
+	 * ```
+	 *
+	 * @param delay - The delay in milliseconds.
+	 *
+	 * @returns A backoff policy.
+	 */
+	constant(delay: number): Backoff;
+	/**
+	 * Multiplies the delay by `factor` after every attempt, optionally capped and jittered.
+	 *
+	 * @example
+	 * ```ts
+	 * // 100ms, 200ms, 400ms, ...
+	 * ResultAsync.retry(op, { attempts: 5, backoff: Backoff.exponential() });
+	 *
+	 * // Random delays up to 250ms, 500ms, 1s, 1s, ...
+	 * ResultAsync.retry(op, {
+	 *   attempts: 10,
+	 *   backoff: Backoff.exponential({ initial: 250, max: 1000, jitter: true }),
+	 * });
+	 * ```
+	 *
+	 * @param options - The initial delay, growth factor, cap and jitter settings.
+	 *
+	 * @returns A backoff policy.
+	 */
+	exponential(options?: ExponentialBackoffOptions): Backoff;
+}
+
+export const Backoff: BackoffNamespace = {
+	constant(delay: number): Backoff {
+		return () => delay;
+	},
+	exponential({
+		initial = 100,
+		factor = 2,
+		max = Number.POSITIVE_INFINITY,
+		jitter = false,
+		random = Math.random,
+	}: ExponentialBackoffOptions = {}): Backoff {
+		return (attempt) => {
+			const delay = Math.min(initial * factor ** (attempt - 1), max);
+			return jitter ? random() * delay : delay;
+		};
+	},
+};
@@ -0,0 +1,61 @@
+import { describe, expect, expectTypeOf, test } from "bun:test";
+import { TaggedError } from "./tagged-error.js";
+
+class NotFound extends TaggedError("NotFound")<{ resource: string }> {}
+class Unauthorized extends TaggedError("Unauthorized") {}
+
+describe("TaggedError", () => {
+	test("creates an Error with a literal tag", () => {
+		const error = new NotFound({ resource: "user" });
+		expect(error).toBeInstanceOf(Error);
+		expect(error).toBeInstanceOf(NotFound);
+		expect(error._tag).toBe("NotFound");
+	});
+
+	test("assigns the fields", () => {
+		expect(new NotFound({ resource: "user" }).resource).toBe("user");
+	});
+
+	test("uses the tag as the name", () => {
+		expect(new Unauthorized().name).toBe("Unauthorized");
+	});
+
+	test("takes the message and cause from the props", () => {
+		const cause = new Error("db down");
+		const error = new NotFound({ resource: "user", message: "No such user", cause });
+		expect(error.message).toBe("No such user");
+		expect(error.cause).toBe(cause);
+		expect(Object.keys(error)).not.toContain("message");
+	});
+
+	test("leaves cause unset when not given", () => {
+		expect("cause" in new Unauthorized()).toBe(false);
+	});
+
+	test("captures a stack", () => {
+		expect(new Unauthorized().stack).toContain("Unauthorized");
+	});
+
+	test("keeps the tags of different classes apart", () => {
+		const errors = [new NotFound({ resource: "user" }), new Unauthorized()];
+		expect(errors.map((e) => e._tag)).toEqual(["NotFound", "Unauthorized"]);
+	});
+
+	describe("types", () => {
+		test("_tag is a literal type", () => {
+			expectTypeOf(new NotFound({ resource: "user" })._tag).toEqualTypeOf<"NotFound">();
+		});
+
+		test("fields are readonly", () => {
+			expectTypeOf(new NotFound({ resource: "user" })).toExtend<{
+				readonly resource: string;
+			}>();
+		});
+
+		test("errors without fields take optional props", () => {
+			expectTypeOf<ConstructorParameters<typeof Unauthorized>>().toEqualTypeOf<
+				[props?: { message?: string; cause?: unknown }]
+			>();
+		});
+	});
+});
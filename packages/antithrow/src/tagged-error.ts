@@ -0,0 +1,74 @@
+/**
+ * The standard `Error` options accepted by every tagged error.
+ */
+interface TaggedErrorOptions {
+	/** The error message. Defaults to an empty string. */
+	message?: string;
+	/** The underlying error that caused this one. */
+	cause?: unknown;
+}
+
+type TaggedErrorArgs<P> = keyof P extends never
+	? [props?: TaggedErrorOptions]
+	: [props: P & TaggedErrorOptions];
+
+/**
+ * An `Error` with a literal `_tag` and the readonly fields `P`.
+ *
+ * @template Tag - The literal tag of the error.
+ * @template P - The fields of the error.
+ */
+type TaggedErrorInstance<Tag extends string, P> = Error & {
+	readonly _tag: Tag;
+} & Readonly<P>;
+
+/**
+ * A class of tagged errors, as returned by {@link TaggedError}. Instantiate it with the
+ * fields of the error to get a non-generic class to extend.
+ *
+ * @template Tag - The literal tag of the error.
+ */
+interface TaggedErrorConstructor<Tag extends string> {
+	new <P extends object = Record<never, never>>(
+		...args: TaggedErrorArgs<P>
+	): TaggedErrorInstance<Tag, P>;
+}
+
+/**
+ * Creates a base class for errors identified by a literal `_tag`. Extend it with the error's
+ * fields to declare an error type that can be matched exhaustively with `matchTag`.
+ *
+ * Instances are real `Error`s: they have a stack, `name` is set to the tag, and `message` and
+ * `cause` are taken from the constructor's argument alongside the fields.
+ *
+ * @example
+ * ```ts
+ * class NotFound extends TaggedError("NotFound")<{ resource: string }> {}
+ * class Unauthorized extends TaggedError("Unauthorized") {}
+ *
+ * const error = new NotFound({ resource: "user", message: "No such user" });
+ * error._tag; // "NotFound"
+ * error.resource; // "user"
+ * ```
+ *
+ * @template Tag - The literal tag of the error.
+ *
+ * @param tag - The tag identifying the error.
+ *
+ * @returns A class to extend, generic over the error's fields.
+ */
+export function TaggedError<Tag extends string>(tag: Tag): TaggedErrorConstructor<Tag> {
+	class Tagged extends Error {
+		readonly _tag = tag;
+
+		constructor(props: TaggedErrorOptions & Record<string, unknown> = {}) {
+			const { message, cause, ...fields } = props;
+			super(message, "cause" in props ? { cause } : undefined);
+			this.name = tag;
+			Object.assign(this, fields);
+		}
+	}
+
+	// Cast is safe: the constructor assigns every field of `P` onto the instance.
+	return Tagged as unknown as TaggedErrorConstructor<Tag>;
+}
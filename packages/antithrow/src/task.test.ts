@@ -0,0 +1,178 @@
+import { describe, expect, expectTypeOf, test } from "bun:test";
+import { chain } from "./chain.js";
+import type { Result } from "./result.js";
+import { err, ok } from "./result.js";
+import type { ResultAsync } from "./result-async.js";
+import { errAsync, okAsync } from "./result-async.js";
+import { Task } from "./task.js";
+
+describe("Task", () => {
+	describe("from", () => {
+		test("does not call the function until run", () => {
+			let calls = 0;
+			Task.from(() => {
+				calls++;
+				return ok(1);
+			});
+			expect(calls).toBe(0);
+		});
+
+		test("accepts a Result, a promise of a Result or a ResultAsync", async () => {
+			expect(await Task.from(() => ok(1)).run()).toEqual(ok(1));
+			expect(await Task.from(async () => err("bad")).run()).toEqual(err("bad"));
+			expect(await Task.from(() => okAsync(2)).run()).toEqual(ok(2));
+		});
+
+		test("rejects the run when the function throws", async () => {
+			const defect = new Error("boom");
+			const task = Task.from((): Result<number, string> => {
+				throw defect;
+			});
+			expect(task.run().then()).rejects.toBe(defect);
+		});
+	});
+
+	describe("run", () => {
+		test("runs the operation again on every call", async () => {
+			let calls = 0;
+			const task = Task.from(() => okAsync(++calls));
+			expect(await task.run()).toEqual(ok(1));
+			expect(await task.run()).toEqual(ok(2));
+		});
+	});
+
+	describe("map", () => {
+		test("maps the success value of every run", async () => {
+			let calls = 0;
+			const task = Task.from(() => okAsync(++calls)).map((x) => x * 10);
+			expect(await task.run()).toEqual(ok(10));
+			expect(await task.run()).toEqual(ok(20));
+		});
+
+		test("is lazy", () => {
+			let called = false;
+			Task.from(() => ok(1)).map((x) => {
+				called = true;
+				return x;
+			});
+			expect(called).toBe(false);
+		});
+	});
+
+	describe("mapErr", () => {
+		test("maps the error value", async () => {
+			const task = Task.from(() => errAsync("bad")).mapErr((e) => e.toUpperCase());
+			expect(await task.run()).toEqual(err("BAD"));
+		});
+	});
+
+	describe("andThen", () => {
+		test("chains a Result or ResultAsync", async () => {
+			const task = Task.from(() => ok(2));
+			expect(await task.andThen((x) => ok(x * 2)).run()).toEqual(ok(4));
+			expect(await task.andThen((x) => errAsync(`bad ${x}`)).run()).toEqual(err("bad 2"));
+		});
+
+		test("runs a returned Task on every run", async () => {
+			let calls = 0;
+			const next = Task.from(() => okAsync(++calls));
+			const task = Task.from(() => ok(1)).andThen((x) => next.map((y) => x + y));
+			expect(await task.run()).toEqual(ok(2));
+			expect(await task.run()).toEqual(ok(3));
+		});
+
+		test("short-circuits on Err", async () => {
+			let called = false;
+			const task = Task.from(() => errAsync("bad")).andThen(() => {
+				called = true;
+				return ok(1);
+			});
+			expect(await task.run()).toEqual(err("bad"));
+			expect(called).toBe(false);
+		});
+	});
+
+	describe("orElse", () => {
+		test("recovers with a Task", async () => {
+			const fallback = Task.from(() => okAsync("cached"));
+			const task = Task.from(() => errAsync<string, string>("offline")).orElse(() => fallback);
+			expect(await task.run()).toEqual(ok("cached"));
+		});
+
+		test("does not call fn for Ok", async () => {
+			let called = false;
+			const task = Task.from(() => ok(1)).orElse(() => {
+				called = true;
+				return ok(0);
+			});
+			expect(await task.run()).toEqual(ok(1));
+			expect(called).toBe(false);
+		});
+	});
+
+	describe("memoize", () => {
+		test("runs the operation once and shares the result", async () => {
+			let calls = 0;
+			const task = Task.from(() => okAsync(++calls)).memoize();
+			expect(calls).toBe(0);
+			expect(await task.run()).toEqual(ok(1));
+			expect(await task.run()).toEqual(ok(1));
+			expect(calls).toBe(1);
+		});
+
+		test("shares a run that is still pending", async () => {
+			let calls = 0;
+			const task = Task.from(async () => ok(++calls)).memoize();
+			const [a, b] = await Promise.all([task.run(), task.run()]);
+			expect(a).toBe(b);
+			expect(calls).toBe(1);
+		});
+	});
+
+	describe("chain", () => {
+		test("runs the task with yield*", async () => {
+			const task = Task.from(() => okAsync(1));
+			const result = await chain(async function* () {
+				const a = yield* task;
+				const b = yield* task;
+				return a + b;
+			});
+			expect(result).toEqual(ok(2));
+		});
+
+		test("short-circuits on Err", async () => {
+			const result = await chain(async function* () {
+				yield* Task.from(() => errAsync("bad"));
+				return 1;
+			});
+			expect(result).toEqual(err("bad"));
+		});
+	});
+
+	describe("types", () => {
+		test("from infers the result types", () => {
+			const task = Task.from(() => okAsync<number, string>(1));
+			expectTypeOf(task).toEqualTypeOf<Task<number, string>>();
+			expectTypeOf(task.run()).toEqualTypeOf<ResultAsync<number, string>>();
+		});
+
+		test("andThen unions the error types", () => {
+			const task = Task.from(() => okAsync<number, "a">(1));
+			const next = task.andThen(() => Task.from(() => errAsync<string, "b">("b")));
+			expectTypeOf(next).toEqualTypeOf<Task<string, "a" | "b">>();
+		});
+
+		test("orElse replaces the error type", () => {
+			const task = Task.from(() => errAsync<number, "a">("a"));
+			expectTypeOf(task.orElse(() => err("b" as const))).toEqualTypeOf<Task<number, "b">>();
+		});
+
+		test("chain infers the error from yielded tasks", () => {
+			const task = Task.from(() => okAsync<number, "a">(1));
+			const result = chain(async function* () {
+				return yield* task;
+			});
+			expectTypeOf(result).toEqualTypeOf<ResultAsync<number, "a">>();
+		});
+	});
+});
@@ -0,0 +1,186 @@
+import type { AsyncChainGenerator } from "./chain.js";
+import type { Result } from "./result.js";
+import { ResultAsync } from "./result-async.js";
+
+/**
+ * A type that can be either a value or a promise-like containing that value.
+ */
+type MaybePromise<T> = T | PromiseLike<T>;
+
+/**
+ * A lazy, re-runnable asynchronous operation that produces a `Result`.
+ *
+ * Unlike a `ResultAsync`, which is already running by the time it exists, a `Task` does nothing
+ * until {@link Task.run} is called, and runs its operation again on every call. This makes it a
+ * value that can be defined once and then run, retried or scheduled later.
+ *
+ * @example
+ * ```ts
+ * const loadUser = Task.from(() => ResultAsync.try(() => fetchUser(id)));
+ * // Nothing has been fetched yet.
+ *
+ * const first = await loadUser.run();
+ * const second = await loadUser.run(); // fetches again
+ * ```
+ *
+ * @template T - The type of the success value.
+ * @template E - The type of the error value.
+ */
+export class Task<T, E> {
+	private readonly thunk: () => ResultAsync<T, E>;
+
+	private constructor(thunk: () => ResultAsync<T, E>) {
+		this.thunk = thunk;
+	}
+
+	/**
+	 * Creates a `Task` from a function producing a result. The function is not called until the
+	 * task is run, and is called again on every run.
+	 *
+	 * If the function throws, the `ResultAsync` returned by {@link Task.run} rejects. Catch
+	 * expected failures inside it, for example with `ResultAsync.try`.
+	 *
+	 * @example
+	 * ```ts
+	 * const ping = Task.from(() => ResultAsync.try(() => fetch("/ping")));
+	 * const parse = Task.from(() => Result.try(() => JSON.parse(text)));
+	 * ```
+	 *
+	 * @template T - The type of the success value.
+	 * @template E - The type of the error value.
+	 *
+	 * @param fn - The operation to run.
+	 *
+	 * @returns A `Task` that runs `fn` each time it is run.
+	 */
+	static from<T, E>(fn: () => MaybePromise<Result<T, E>> | ResultAsync<T, E>): Task<T, E> {
+		return new Task(() =>
+			ResultAsync.fromPromise(new Promise<Result<T, E>>((resolve) => resolve(fn()))),
+		);
+	}
+
+	/**
+	 * Starts the operation and returns its result. Every call starts it again.
+	 *
+	 * @example
+	 * ```ts
+	 * const result = await task.run(); // Result<T, E>
+	 * ```
+	 *
+	 * @returns A `ResultAsync` for this run of the operation.
+	 */
+	run(): ResultAsync<T, E> {
+		return this.thunk();
+	}
+
+	/**
+	 * Maps the success value of every run.
+	 *
+	 * @example
+	 * ```ts
+	 * const name = loadUser.map((user) => user.name); // Task<string, FetchError>
+	 * ```
+	 *
+	 * @template U - The type of the new success value.
+	 *
+	 * @param fn - The function to apply to the success value.
+	 *
+	 * @returns A new `Task` with the mapped success value.
+	 */
+	map<U>(fn: (value: T) => MaybePromise<U>): Task<U, E> {
+		return new Task(() => this.run().map(fn));
+	}
+
+	/**
+	 * Maps the error value of every run.
+	 *
+	 * @example
+	 * ```ts
+	 * const task = loadUser.mapErr((error) => new ApiError(error)); // Task<User, ApiError>
+	 * ```
+	 *
+	 * @template F - The type of the new error value.
+	 *
+	 * @param fn - The function to apply to the error value.
+	 *
+	 * @returns A new `Task` with the mapped error value.
+	 */
+	mapErr<F>(fn: (error: E) => MaybePromise<F>): Task<T, F> {
+		return new Task(() => this.run().mapErr(fn));
+	}
+
+	/**
+	 * Chains another operation on the success value of every run. `fn` may return a `Result`, a
+	 * `ResultAsync` or another `Task`, which is run as part of this one.
+	 *
+	 * @example
+	 * ```ts
+	 * const posts = loadUser.andThen((user) => loadPosts(user.id)); // Task<Post[], FetchError>
+	 * ```
+	 *
+	 * @template U - The type of the new success value.
+	 * @template F - The type of the new error value.
+	 *
+	 * @param fn - The function to call with the success value.
+	 *
+	 * @returns A new `Task` running both operations in sequence.
+	 */
+	andThen<U, F>(
+		fn: (value: T) => MaybePromise<Result<U, F>> | ResultAsync<U, F> | Task<U, F>,
+	): Task<U, E | F> {
+		return new Task(() => this.run().andThen(async (value) => runStep(await fn(value))));
+	}
+
+	/**
+	 * Recovers from the error of every run. `fn` may return a `Result`, a `ResultAsync` or
+	 * another `Task`, which is run as part of this one.
+	 *
+	 * @example
+	 * ```ts
+	 * const user = loadUser.orElse(() => loadCachedUser); // Task<User, CacheError>
+	 * ```
+	 *
+	 * @template F - The type of the new error value.
+	 *
+	 * @param fn - The function to call with the error value.
+	 *
+	 * @returns A new `Task` that falls back to `fn` on error.
+	 */
+	orElse<F>(
+		fn: (error: E) => MaybePromise<Result<T, F>> | ResultAsync<T, F> | Task<T, F>,
+	): Task<T, F> {
+		return new Task(() => this.run().orElse(async (error) => runStep(await fn(error))));
+	}
+
+	/**
+	 * Returns a `Task` that runs the operation once, on its first run, and shares that result
+	 * with every later run.
+	 *
+	 * @example
+	 * ```ts
+	 * const config = Task.from(loadConfig).memoize();
+	 * await config.run(); // loads the config
+	 * await config.run(); // reuses the first result
+	 * ```
+	 *
+	 * @returns A `Task` that runs the operation at most once.
+	 */
+	memoize(): Task<T, E> {
+		let cached: ResultAsync<T, E> | undefined;
+		return new Task(() => {
+			cached ??= this.run();
+			return cached;
+		});
+	}
+
+	async *[Symbol.asyncIterator](): AsyncChainGenerator<T, E> {
+		return yield* this.run();
+	}
+}
+
+/**
+ * Runs `step` if it is a `Task`, so that combinators can accept tasks alongside results.
+ */
+function runStep<T, E>(step: Result<T, E> | ResultAsync<T, E> | Task<T, E>) {
+	return step instanceof Task ? step.run() : step;
+}
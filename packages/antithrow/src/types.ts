@@ -10,3 +10,77 @@ export type OkTuple<T extends readonly AnyResult[]> = {
 };
 
 export type ErrUnion<T extends readonly AnyResult[]> = InferErr<T[number]>;
+
+export type ErrTuple<T extends readonly AnyResult[]> = {
+	[K in keyof T]: InferErr<T[K]>;
+};
+
+export type OkUnion<T extends readonly AnyResult[]> = InferOk<T[number]>;
+
+export type SettledTuple<T extends readonly AnyResult[]> = {
+	[K in keyof T]: Result<InferOk<T[K]>, InferErr<T[K]>>;
+};
+
+export type Partitioned<T, E> = {
+	oks: { index: number; value: T }[];
+	errs: { index: number; error: E }[];
+};
+
+export type AnyResultRecord = Readonly<Record<string, AnyResult>>;
+
+export type OkRecord<T extends AnyResultRecord> = {
+	[K in keyof T]: InferOk<T[K]>;
+};
+
+export type ErrRecordUnion<T extends AnyResultRecord> = InferErr<T[keyof T]>;
+
+export type ErrRecord<T extends AnyResultRecord> = {
+	[K in keyof T]?: InferErr<T[K]>;
+};
+
+type Signatures<F> = F extends {
+	(...args: infer A1): infer R1;
+	(...args: infer A2): infer R2;
+	(...args: infer A3): infer R3;
+	(...args: infer A4): infer R4;
+}
+	? [[A1, R1], [A2, R2], [A3, R3], [A4, R4]]
+	: never;
+
+type SameSignature<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+
+// Functions with fewer than four overloads have their first signature repeated to fill the gaps.
+type DistinctSignatures<S extends unknown[]> = S extends [infer Head, infer Next, ...infer Rest]
+	? SameSignature<Head, Next> extends true
+		? DistinctSignatures<[Next, ...Rest]>
+		: [Head, ...DistinctSignatures<[Next, ...Rest]>]
+	: S;
+
+type ResultSignatures<S, E> = S extends [[infer A extends unknown[], infer R], ...infer Rest]
+	? ((...args: A) => Result<R, E>) & ResultSignatures<Rest, E>
+	: unknown;
+
+type ResultAsyncSignatures<S, E> = S extends [[infer A extends unknown[], infer R], ...infer Rest]
+	? ((...args: A) => ResultAsync<Awaited<R>, E>) & ResultAsyncSignatures<Rest, E>
+	: unknown;
+
+export type Throwable = (...args: never[]) => unknown;
+
+// Keeps up to four overloads of `F`. Generic signatures lose their type parameters.
+export type ResultFunction<F extends Throwable, E> = ResultSignatures<
+	DistinctSignatures<Signatures<F>>,
+	E
+>;
+
+export type ResultAsyncFunction<F extends Throwable, E> = ResultAsyncSignatures<
+	DistinctSignatures<Signatures<F>>,
+	E
+>;
+
+export type Tag<E> = E extends { readonly _tag: infer K extends string } ? K : never;
+
+export type WithTag<K extends string> = { readonly _tag: K };
+
+export type TagHandlers<E, U> = [E] extends [{ readonly _tag: string }]
+	? { [K in Tag<E>]: (error: Extract<E, { readonly _tag: K }>) => U }
+	: never;
@@ -0,0 +1,28 @@
+import { describe, expect, expectTypeOf, test } from "bun:test";
+import { UnwrapError } from "./unwrap-error.js";
+
+describe("UnwrapError", () => {
+	test("is an Error named UnwrapError", () => {
+		const error = new UnwrapError("Called unwrap on an Err value: boom", "boom");
+		expect(error).toBeInstanceOf(Error);
+		expect(error.name).toBe("UnwrapError");
+		expect(error.message).toBe("Called unwrap on an Err value: boom");
+	});
+
+	test("holds the offending value", () => {
+		const value = { id: 1 };
+		expect(new UnwrapError("message", value).value).toBe(value);
+	});
+
+	test("sets cause only when given", () => {
+		const cause = new Error("boom");
+		expect(new UnwrapError("message", cause, { cause }).cause).toBe(cause);
+		expect(new UnwrapError("message", 42)).not.toHaveProperty("cause");
+	});
+
+	describe("types", () => {
+		test("value is unknown", () => {
+			expectTypeOf(new UnwrapError("message", 42).value).toEqualTypeOf<unknown>();
+		});
+	});
+});
@@ -0,0 +1,34 @@
+/**
+ * The error thrown by `unwrap`, `unwrapErr`, `expect` and `expectErr` when a result holds the
+ * other variant. Keeps the offending value as `value` so crash reports show what the result
+ * actually held. When that value is an `Err`'s error, it is also the `cause`.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   err(new Error("ENOENT")).unwrap();
+ * } catch (error) {
+ *   if (error instanceof UnwrapError) {
+ *     error.value; // Error: ENOENT
+ *     error.cause; // Error: ENOENT
+ *   }
+ * }
+ * ```
+ */
+export class UnwrapError extends Error {
+	override readonly name = "UnwrapError";
+	/** The value the result held instead of the one asked for. */
+	readonly value: unknown;
+
+	/**
+	 * Creates a new UnwrapError.
+	 *
+	 * @param message - The error message.
+	 * @param value - The value the result held instead of the one asked for.
+	 * @param options - The standard `Error` options, used to set the `cause`.
+	 */
+	constructor(message: string, value: unknown, options?: ErrorOptions) {
+		super(message, options);
+		this.value = value;
+	}
+}